@@ -1,17 +1,55 @@
 // __tests__/adapters/PumpFunAdapter.test.ts
 import { describe, it, expect, vi } from 'vitest';
 import { PumpFunAdapter } from '../../src/adapters/PumpFunAdapter.js';
-import { Connection } from '@solana/web3.js';
+import { BONDING_CURVE_DISCRIMINATOR, PUMP_FUN_PROGRAM_ID, deriveBondingCurveAddress } from '../../src/lib/pumpfun/BondingCurveAccount.js';
+import { Global, PumpSdk } from '@pump-fun/pump-sdk';
+import { ASSOCIATED_TOKEN_PROGRAM_ID } from '../../src/lib/security/SigningPolicy.js';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
 import Redis from 'ioredis';
 
+// Fixture: fresh curve with 5 SOL of real reserves
+function curveAccountFixture() {
+  const data = Buffer.alloc(49);
+  BONDING_CURVE_DISCRIMINATOR.copy(data, 0);
+  data.writeBigUInt64LE(1_073_000_000_000_000n, 8);
+  data.writeBigUInt64LE(30_000_000_000n, 16);
+  data.writeBigUInt64LE(793_100_000_000_000n, 24);
+  data.writeBigUInt64LE(5_000_000_000n, 32);
+  data.writeBigUInt64LE(1_000_000_000_000_000n, 40);
+  return { data, owner: PUMP_FUN_PROGRAM_ID, lamports: 1_000_000, executable: false };
+}
+
 describe('PumpFunAdapter', () => {
-  it('should create a buy transaction with real Pump.fun logic', async () => {
-    const mockRedis = new Redis();
-    const mockConnection = new Connection('https://api.mainnet-beta.solana.com');
-    const adapter = new PumpFunAdapter(mockRedis, console, mockConnection);
-    const transaction = await adapter.createBuyTransaction('TokenAddress123', 1.0, 0.05);
-    expect(transaction).toBeDefined();
-    expect(transaction.instructions.length).toBe(1);
-    expect(transaction.instructions[0].programId.toBase58()).toBe('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P');
+  it('should create buy instructions against the fixture curve without network access', async () => {
+    const mint = Keypair.generate().publicKey;
+    const curveAddress = deriveBondingCurveAddress(mint);
+    const mockConnection = new Connection('http://localhost:8899');
+    // Only the curve exists; the wallet has no token account yet
+    vi.spyOn(mockConnection, 'getAccountInfo').mockImplementation(async address => address.equals(curveAddress) ? curveAccountFixture() : null);
+    const feeRecipient = Keypair.generate().publicKey;
+    vi.spyOn(PumpSdk.prototype, 'fetchGlobal').mockResolvedValue({ feeRecipient, feeRecipients: [] as PublicKey[] } as Global);
+    const adapter = new PumpFunAdapter(new Redis({ lazyConnect: true }), console, mockConnection, Keypair.generate().publicKey);
+
+    const instructions = await adapter.createBuyInstructions(mint.toBase58(), 1.0, 0.05);
+
+    const buy = instructions[instructions.length - 1]!;
+    expect(buy.programId.equals(PUMP_FUN_PROGRAM_ID)).toBe(true);
+    expect(buy.keys.some(key => key.pubkey.equals(curveAddress))).toBe(true);
+    expect(buy.keys.some(key => key.pubkey.equals(feeRecipient))).toBe(true);
+    expect(instructions.some(instruction => instruction.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID))).toBe(true);
+  });
+
+  it('should read bonding curve state from raw account data', async () => {
+    const mockConnection = new Connection('http://localhost:8899');
+    vi.spyOn(mockConnection, 'getAccountInfo').mockResolvedValue(curveAccountFixture());
+    const adapter = new PumpFunAdapter(new Redis({ lazyConnect: true }), console, mockConnection, Keypair.generate().publicKey);
+
+    const state = await adapter.getBondingCurveState('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+    expect(state.virtualSolReserves).toBe(30_000_000_000n);
+    expect(state.complete).toBe(false);
+    expect(state.price).toBeCloseTo(30 / 1_073_000_000, 15);
+
+    const quote = await adapter.quoteSell('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA', 1_000_000, 0.01);
+    expect(quote.minAmountOut).toBeLessThan(quote.amountOut);
   });
 });
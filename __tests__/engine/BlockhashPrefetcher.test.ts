@@ -0,0 +1,31 @@
+// __tests__/engine/BlockhashPrefetcher.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { Connection } from '@solana/web3.js';
+import { BlockhashPrefetcher, StaleChainStateError } from '../../src/engine/BlockhashPrefetcher.js';
+
+describe('BlockhashPrefetcher', () => {
+  it('should serve prefetched values and refuse them once stale', async () => {
+    const connection = {
+      getLatestBlockhash: vi.fn().mockResolvedValue({ blockhash: 'Hash111', lastValidBlockHeight: 500 }),
+      getSlot: vi.fn().mockResolvedValue(1_234),
+    };
+    const prefetcher = new BlockhashPrefetcher(connection as unknown as Connection, {
+      refreshIntervalMs: 60_000,
+      maxAgeMs: 1_000,
+      commitment: 'confirmed',
+    });
+
+    expect(() => prefetcher.current()).toThrow(StaleChainStateError);
+    await prefetcher.start();
+    prefetcher.stop();
+    expect(prefetcher.current()).toMatchObject({ blockhash: 'Hash111', lastValidBlockHeight: 500, slot: 1_234 });
+
+    connection.getSlot.mockRejectedValueOnce(new Error('fetch failed'));
+    const now = Date.now();
+    const clock = vi.spyOn(Date, 'now').mockReturnValue(now + 5_000);
+    await prefetcher.refresh();
+    expect(prefetcher.ageMs()).toBeGreaterThanOrEqual(4_000);
+    expect(() => prefetcher.current()).toThrow(/old/);
+    clock.mockRestore();
+  });
+});
@@ -0,0 +1,58 @@
+// __tests__/engine/ConfirmationTracker.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { Connection, Keypair } from '@solana/web3.js';
+import { ConfirmationTracker } from '../../src/engine/ConfirmationTracker.js';
+
+const options = { commitment: 'confirmed' as const, pollIntervalMs: 5, rebroadcastIntervalMs: 0, maxTrackingMs: 1_000 };
+
+describe('ConfirmationTracker', () => {
+  it('should report confirmed, failed and expired signatures, rebroadcasting while pending', async () => {
+    let height = 100;
+    const connection = {
+      getBlockHeight: vi.fn(async () => (height += 10)),
+      // Only the pending signature is polled after the first round
+      getSignatureStatuses: vi.fn()
+        .mockResolvedValueOnce({
+          context: { slot: 1 },
+          value: [
+            { slot: 7, confirmations: null, err: null, confirmationStatus: 'finalized' },
+            { slot: 8, confirmations: 1, err: { InstructionError: [2, { Custom: 6001 }] }, confirmationStatus: 'confirmed' },
+            null,
+          ],
+        })
+        .mockResolvedValue({ context: { slot: 1 }, value: [null] }),
+      sendRawTransaction: vi.fn().mockResolvedValue('5igPending'),
+    };
+
+    const tracker = new ConfirmationTracker(connection as unknown as Connection, options);
+    const outcomes = await tracker.track([
+      { signature: '5igOk', transaction: Buffer.from([1]), expiry: { lastValidBlockHeight: 150 } },
+      { signature: '5igErr', transaction: Buffer.from([2]), expiry: { lastValidBlockHeight: 150 } },
+      { signature: '5igPending', transaction: Buffer.from([3]), expiry: { lastValidBlockHeight: 150 } },
+    ], true);
+
+    expect(outcomes.map(outcome => outcome.status)).toEqual(['confirmed', 'failed', 'expired']);
+    expect(outcomes[1]!.error).toContain('6001');
+    expect(connection.sendRawTransaction).toHaveBeenCalledWith(Buffer.from([3]), { skipPreflight: true, maxRetries: 0 });
+  });
+
+  it('should expire a nonce transaction once its nonce advances', async () => {
+    const nonceAccount = Keypair.generate().publicKey;
+    const connection = {
+      getNonce: vi.fn()
+        .mockResolvedValueOnce({ nonce: 'NonceA' })
+        .mockResolvedValue({ nonce: 'NonceB' }),
+      getSignatureStatuses: vi.fn().mockResolvedValue({ context: { slot: 1 }, value: [null] }),
+      sendRawTransaction: vi.fn(),
+    };
+
+    const tracker = new ConfirmationTracker(connection as unknown as Connection, options);
+    const [outcome] = await tracker.track([
+      { signature: '5igNonce', transaction: Buffer.from([1]), expiry: { nonceAccount, nonce: 'NonceA' } },
+    ], false);
+
+    expect(outcome!.status).toBe('expired');
+    expect(connection.getNonce).toHaveBeenCalledTimes(2);
+    expect(connection.sendRawTransaction).not.toHaveBeenCalled();
+  });
+});
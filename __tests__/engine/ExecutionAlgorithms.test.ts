@@ -0,0 +1,37 @@
+// __tests__/engine/ExecutionAlgorithms.test.ts
+import { describe, it, expect } from 'vitest';
+import { ExecutionParams, SliceContext, createSlicePolicy, maxChildForImpact } from '../../src/engine/ExecutionAlgorithms.js';
+
+const params: ExecutionParams = {
+  durationMs: 60_000,
+  childIntervalMs: 5_000,
+  participationRate: 0.1,
+  maxImpact: 0.01,
+  minChildSol: 0.01,
+};
+
+const context: SliceContext = {
+  totalSol: 12,
+  remainingSol: 12,
+  elapsedMs: 0,
+  solReserves: 30_000_000_000n,
+  marketVolumeSol: 4,
+};
+
+describe('ExecutionAlgorithms', () => {
+  it('should keep TWAP on its straight-line schedule and catch up after a missed child', () => {
+    const twap = createSlicePolicy('twap', params);
+
+    expect(twap(context)).toBeCloseTo(1);
+    expect(twap({ ...context, elapsedMs: 5_000, remainingSol: 11 })).toBeCloseTo(1);
+    expect(twap({ ...context, elapsedMs: 10_000 })).toBeCloseTo(3);
+    expect(twap({ ...context, elapsedMs: 90_000, remainingSol: 0.5 })).toBeCloseTo(0.5);
+  });
+
+  it('should size POV children by observed volume and impact-capped children by reserves', () => {
+    expect(createSlicePolicy('pov', params)(context)).toBeCloseTo(0.4);
+    expect(createSlicePolicy('pov', params)({ ...context, marketVolumeSol: 0 })).toBe(0);
+    expect(maxChildForImpact(30_000_000_000n, 0.01)).toBeCloseTo(0.3);
+    expect(createSlicePolicy('impact', params)({ ...context, remainingSol: 0.1 })).toBeCloseTo(0.1);
+  });
+});
@@ -0,0 +1,95 @@
+// __tests__/engine/ExecutionEngine.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { ExecutionEngine, ExecutionEngineOptions, ParentOrderRequest } from '../../src/engine/ExecutionEngine.js';
+import { OrderRequest, OrderResult } from '../../src/engine/OrderRouter.js';
+
+const TOKEN = 'Mint1111111111111111111111111111111111111111';
+
+const options: ExecutionEngineOptions = {
+  durationMs: 40,
+  childIntervalMs: 10,
+  participationRate: 0.1,
+  maxImpact: 0.01,
+  minChildSol: 0.01,
+  maxChildFailures: 2,
+};
+
+const request: ParentOrderRequest = { tokenAddress: TOKEN, side: 'sell', totalSol: 1, algorithm: 'twap', maxSlippageBps: 100 };
+
+// Every child fills at 0.000001 SOL per token
+function filledRouter() {
+  return {
+    executeOrder: vi.fn(async ({ amountLamports }: OrderRequest): Promise<OrderResult> => ({
+      success: true,
+      fill: {
+        fill: { solLamports: amountLamports, tokenAmount: BigInt(amountLamports) * 1000n, tokenDecimals: 6 },
+        expectedLamports: amountLamports,
+        deviationBps: 0,
+        mismatch: false,
+      } as OrderResult['fill'],
+    })),
+  };
+}
+
+const reserves = async () => 30_000_000_000n;
+
+describe('ExecutionEngine', () => {
+  it('should work a TWAP parent in several children and track the average price', async () => {
+    const router = filledRouter();
+    const engine = new ExecutionEngine(router, reserves, options);
+    const progress = vi.fn();
+    engine.on('progress', progress);
+
+    const result = await engine.start(request).done;
+
+    expect(result.status).toBe('completed');
+    expect(result.executedSol).toBeCloseTo(1);
+    expect(result.remainingSol).toBeLessThan(options.minChildSol);
+    expect(result.childOrders).toBeGreaterThan(1);
+    expect(result.childOrders).toBe(router.executeOrder.mock.calls.length);
+    expect(progress).toHaveBeenCalledTimes(result.childOrders);
+    expect(result.averagePrice).toBeCloseTo(0.000001);
+    // Each child stays near its share of the schedule instead of taking the whole parent
+    for (const [child] of router.executeOrder.mock.calls) {
+      expect(child.amountLamports).toBeLessThanOrEqual(500_000_000);
+      expect(child).toMatchObject({ type: 'sell', tokenAddress: TOKEN, maxSlippageBps: 100 });
+    }
+    expect(engine.active(TOKEN)).toBeUndefined();
+  });
+
+  it('should stop a cancelled parent with the remainder left and allow a new one', async () => {
+    const engine = new ExecutionEngine(filledRouter(), reserves, { ...options, durationMs: 10_000 });
+    const parent = engine.start(request);
+
+    expect(() => engine.start(request)).toThrow('already working');
+    await new Promise(resolve => engine.once('progress', resolve));
+    expect(engine.list()).toHaveLength(1);
+    expect(engine.cancel(parent.id)).toBe(true);
+
+    const result = await parent.done;
+    expect(result.status).toBe('cancelled');
+    expect(result.executedSol).toBeGreaterThan(0);
+    expect(result.remainingSol).toBeCloseTo(1 - result.executedSol);
+    expect(engine.list()).toHaveLength(0);
+    expect(engine.cancel(parent.id)).toBe(false);
+
+    const next = engine.start(request);
+    engine.cancelAll();
+    expect((await next.done).status).toBe('cancelled');
+  });
+
+  it('should fail the parent after consecutive child failures', async () => {
+    const router = { executeOrder: vi.fn(async (): Promise<OrderResult> => ({ success: false, error: 'slippage exceeded' })) };
+    const engine = new ExecutionEngine(router, reserves, options);
+    const finished = vi.fn();
+    engine.on('finished', finished);
+
+    const result = await engine.start(request).done;
+
+    expect(result.status).toBe('failed');
+    expect(result.failedChildren).toBe(2);
+    expect(result.executedSol).toBe(0);
+    expect(result.error).toContain('slippage exceeded');
+    expect(finished).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed' }));
+  });
+});
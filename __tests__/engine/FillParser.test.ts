@@ -0,0 +1,58 @@
+// __tests__/engine/FillParser.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { Connection, Keypair, VersionedTransactionResponse } from '@solana/web3.js';
+import { FillParser, parseFill, reconcileFill } from '../../src/engine/FillParser.js';
+
+const wallet = Keypair.generate().publicKey;
+const mint = Keypair.generate().publicKey.toBase58();
+
+function tokenBalance(accountIndex: number, amount: string) {
+  return { accountIndex, mint, owner: wallet.toBase58(), uiTokenAmount: { amount, decimals: 6, uiAmount: null } };
+}
+
+// Buy of 0.5 SOL for 2,000 tokens into a token account opened by the same transaction
+function buyTransaction(): VersionedTransactionResponse {
+  return {
+    slot: 321,
+    transaction: { message: { staticAccountKeys: [wallet, Keypair.generate().publicKey] }, signatures: [] },
+    meta: {
+      err: null,
+      fee: 15_000,
+      preBalances: [2_000_000_000, 0],
+      postBalances: [2_000_000_000 - 500_000_000 - 15_000 - 10_000 - 2_039_280, 2_039_280],
+      preTokenBalances: [],
+      postTokenBalances: [tokenBalance(1, '2000000000')],
+    },
+  } as unknown as VersionedTransactionResponse;
+}
+
+describe('FillParser', () => {
+  it('should separate the venue amount from fees, tip and rent', () => {
+    const fill = parseFill(buyTransaction(), '5igBuy', { side: 'buy', wallet, tokenAddress: mint, tipLamports: 10_000 });
+
+    expect(fill.solLamports).toBe(500_000_000);
+    expect(fill.tokenAmount).toBe(2_000_000_000n);
+    expect(fill.networkFeeLamports).toBe(15_000);
+    expect(fill.rentLamports).toBe(2_039_280);
+    expect(fill.effectivePrice).toBeCloseTo(0.00025);
+    expect(fill.slot).toBe(321);
+  });
+
+  it('should flag fills that deviate adversely beyond the tolerance', () => {
+    const fill = parseFill(buyTransaction(), '5igBuy', { side: 'buy', wallet, tokenAddress: mint, tipLamports: 10_000 });
+
+    expect(reconcileFill(fill, 'buy', 497_500_000, 50)).toMatchObject({ deviationBps: 50, mismatch: false });
+    expect(reconcileFill(fill, 'buy', 450_000_000, 50).mismatch).toBe(true);
+    // A sell receiving more than expected is not a mismatch
+    expect(reconcileFill(fill, 'sell', 450_000_000, 50).mismatch).toBe(false);
+  });
+
+  it('should retry until the confirmed transaction is served', async () => {
+    const connection = { getTransaction: vi.fn().mockResolvedValueOnce(null).mockResolvedValue(buyTransaction()) };
+    const parser = new FillParser(connection as unknown as Connection, { commitment: 'confirmed', fetchAttempts: 3, fetchRetryDelayMs: 1 });
+
+    const fill = await parser.parse('5igBuy', { side: 'buy', wallet, tokenAddress: mint, tipLamports: 10_000 });
+    expect(fill.solLamports).toBe(500_000_000);
+    expect(connection.getTransaction).toHaveBeenCalledWith('5igBuy', { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+  });
+});
@@ -0,0 +1,98 @@
+// __tests__/engine/JitoBlockEngineClient.test.ts
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { BlockEngineError, JitoBlockEngineClient } from '../../src/engine/JitoBlockEngineClient.js';
+
+type Handler = (method: string, params: unknown[]) => unknown;
+
+/**
+ * Local stand-in for the block engine JSON-RPC API
+ */
+function startBlockEngine(): Promise<{ server: Server; url: string; handle: (handler: Handler) => void; paths: string[] }> {
+  let handler: Handler = () => null;
+  const paths: string[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      paths.push(req.url ?? '');
+      const { id, method, params } = JSON.parse(body);
+      res.setHeader('Content-Type', 'application/json');
+      try {
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result: handler(method, params) }));
+      } catch (error) {
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32602, message: (error as Error).message } }));
+      }
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    const { port } = server.address() as AddressInfo;
+    resolve({ server, url: `http://127.0.0.1:${port}`, handle: next => (handler = next), paths });
+  }));
+}
+
+describe('JitoBlockEngineClient', () => {
+  let engine: Awaited<ReturnType<typeof startBlockEngine>>;
+  let client: JitoBlockEngineClient;
+
+  beforeAll(async () => {
+    engine = await startBlockEngine();
+    client = new JitoBlockEngineClient(`${engine.url}/`, { requestTimeoutMs: 1000, pollIntervalMs: 10 });
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => engine.server.close(resolve));
+  });
+
+  it('should submit a bundle and report the landed signature and slot', async () => {
+    let polls = 0;
+    engine.handle((method, params) => {
+      if (method === 'sendBundle') {
+        expect(params[1]).toEqual({ encoding: 'base64' });
+        return 'bundle-landed';
+      }
+      if (method === 'getInflightBundleStatuses') {
+        polls++;
+        return { context: { slot: 1 }, value: [{ bundle_id: 'bundle-landed', status: polls < 3 ? 'Pending' : 'Landed', landed_slot: polls < 3 ? null : 321 }] };
+      }
+      return { context: { slot: 1 }, value: [{ bundle_id: 'bundle-landed', transactions: ['sigA', 'sigB'], slot: 321, confirmation_status: 'confirmed', err: { Ok: null } }] };
+    });
+
+    const bundleId = await client.sendBundle([Buffer.from([1, 2, 3])]);
+    const outcome = await client.waitForBundle(bundleId, 1000);
+
+    expect(outcome).toMatchObject({ bundleId: 'bundle-landed', status: 'landed', signatures: ['sigA', 'sigB'], slot: 321 });
+    expect(engine.paths).toContain('/api/v1/bundles');
+    expect(engine.paths).toContain('/api/v1/getInflightBundleStatuses');
+  });
+
+  it('should map failed, dropped and timed-out bundles', async () => {
+    engine.handle(() => ({ context: { slot: 1 }, value: [{ bundle_id: 'b', status: 'Failed', landed_slot: null }] }));
+    expect((await client.waitForBundle('b', 500)).status).toBe('failed');
+
+    let polls = 0;
+    engine.handle(method => method === 'getBundleStatuses'
+      ? { context: { slot: 1 }, value: [null] }
+      : { context: { slot: 1 }, value: [{ bundle_id: 'b', status: polls++ < 2 ? 'Pending' : 'Invalid', landed_slot: null }] });
+    expect((await client.waitForBundle('b', 500)).status).toBe('dropped');
+
+    engine.handle(() => ({ context: { slot: 1 }, value: [{ bundle_id: 'b', status: 'Pending', landed_slot: null }] }));
+    const started = Date.now();
+    expect((await client.waitForBundle('b', 80)).status).toBe('timeout');
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+
+  it('should surface JSON-RPC errors and return tip accounts', async () => {
+    engine.handle(method => {
+      if (method === 'getTipAccounts') return ['96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5'];
+      throw new Error('bundle contains an invalid transaction');
+    });
+
+    expect(await client.getTipAccounts()).toEqual(['96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5']);
+    const error = await client.sendBundle([Buffer.from([1])]).catch(e => e);
+    expect(error).toBeInstanceOf(BlockEngineError);
+    expect(error.code).toBe(-32602);
+    expect(error.method).toBe('sendBundle');
+  });
+});
@@ -0,0 +1,110 @@
+// __tests__/engine/NonceManager.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { Connection, Keypair, PublicKey, SystemProgram, VersionedTransaction } from '@solana/web3.js';
+import Redis from 'ioredis';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { NonceManager } from '../../src/engine/NonceManager.js';
+import { KeypairSigner } from '../../src/lib/security/KeypairSigner.js';
+import { PolicySigner, SigningPolicy } from '../../src/lib/security/SigningPolicy.js';
+import { AuditLog } from '../../src/monitoring/AuditLog.js';
+
+// Just enough of Redis for SET NX PX and the compare-and-delete script
+function fakeRedis() {
+  const store = new Map<string, string>();
+  return {
+    store,
+    set: vi.fn(async (key: string, value: string) => {
+      if (store.has(key)) return null;
+      store.set(key, value);
+      return 'OK';
+    }),
+    eval: vi.fn(async (_script: string, _keys: number, key: string, value: string) => {
+      if (store.get(key) !== value) return 0;
+      store.delete(key);
+      return 1;
+    }),
+  };
+}
+
+function fakeConnection(existing: boolean[]) {
+  return {
+    getMultipleAccountsInfo: vi.fn().mockResolvedValue(existing.map(found => found ? {} : null)),
+    getMinimumBalanceForRentExemption: vi.fn().mockResolvedValue(1_447_680),
+    getLatestBlockhash: vi.fn().mockResolvedValue({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 100 }),
+    sendRawTransaction: vi.fn().mockResolvedValue('5igCreate'),
+    confirmTransaction: vi.fn().mockResolvedValue({ context: { slot: 1 }, value: { err: null } }),
+    getNonce: vi.fn().mockResolvedValue({ nonce: Keypair.generate().publicKey.toBase58() }),
+  };
+}
+
+describe('NonceManager', () => {
+  const keypair = Keypair.generate();
+  const signer = new PolicySigner(
+    new KeypairSigner(keypair),
+    new SigningPolicy({ maxOutflowLamports: 1_000_000_000n, maxTipLamports: 100_000n }),
+    new AuditLog(join(mkdtempSync(join(tmpdir(), 'audit-')), 'audit.log'))
+  );
+  const options = { poolSize: 2, leaseTtlMs: 60_000, commitment: 'confirmed' as const };
+
+  it('should create missing seeded nonce accounts through the signing policy', async () => {
+    const connection = fakeConnection([true, false]);
+    const manager = new NonceManager(connection as unknown as Connection, fakeRedis() as unknown as Redis, signer, options);
+
+    await manager.initialize();
+
+    expect(connection.sendRawTransaction).toHaveBeenCalledTimes(1);
+    const transaction = VersionedTransaction.deserialize(connection.sendRawTransaction.mock.calls[0]![0]);
+    const created = await PublicKey.createWithSeed(keypair.publicKey, 'mm-nonce-1', SystemProgram.programId);
+    expect(transaction.message.staticAccountKeys.some(key => key.equals(created))).toBe(true);
+    expect(transaction.message.compiledInstructions).toHaveLength(2);
+  });
+
+  it('should split a large pool into transactions that fit the size limit', async () => {
+    const connection = fakeConnection(Array.from({ length: 12 }, () => false));
+    const manager = new NonceManager(connection as unknown as Connection, fakeRedis() as unknown as Redis, signer, { ...options, poolSize: 12 });
+
+    await manager.initialize();
+
+    const transactions = connection.sendRawTransaction.mock.calls.map(([raw]) => raw as Buffer);
+    expect(transactions).toHaveLength(3);
+    expect(transactions.every(raw => raw.length <= 1232)).toBe(true);
+    const instructionCounts = transactions.map(raw => VersionedTransaction.deserialize(raw).message.compiledInstructions.length);
+    expect(instructionCounts).toEqual([10, 10, 4]);
+  });
+
+  it('should lease each nonce account to one order at a time', async () => {
+    const redis = fakeRedis();
+    const manager = new NonceManager(fakeConnection([true, true]) as unknown as Connection, redis as unknown as Redis, signer, options);
+    await manager.initialize();
+
+    const first = await manager.acquire('order-1');
+    const second = await manager.acquire('order-2');
+    expect(first.nonceAccount.equals(second.nonceAccount)).toBe(false);
+    await expect(manager.acquire('order-3')).rejects.toThrow(/leased/);
+
+    const advance = manager.advanceInstruction(first);
+    expect(advance.keys[0]!.pubkey.equals(first.nonceAccount)).toBe(true);
+
+    await manager.release(first);
+    expect((await manager.acquire('order-3')).nonceAccount.equals(first.nonceAccount)).toBe(true);
+  });
+
+  it('should advance a leased nonce on its own to invalidate attempts in flight', async () => {
+    const connection = fakeConnection([true, true]);
+    const manager = new NonceManager(connection as unknown as Connection, fakeRedis() as unknown as Redis, signer, options);
+    await manager.initialize();
+    const lease = await manager.acquire('order-1');
+
+    await manager.invalidate(lease);
+
+    const transaction = VersionedTransaction.deserialize(connection.sendRawTransaction.mock.calls[0]![0]);
+    const [advance] = transaction.message.compiledInstructions;
+    expect(transaction.message.compiledInstructions).toHaveLength(1);
+    expect(transaction.message.staticAccountKeys[advance!.accountKeyIndexes[0]!]!.equals(lease.nonceAccount)).toBe(true);
+
+    connection.confirmTransaction.mockResolvedValueOnce({ context: { slot: 2 }, value: { err: { InstructionError: [0, 'Custom'] } } });
+    await expect(manager.invalidate(lease)).rejects.toThrow(/Advancing nonce/);
+  });
+});
@@ -1,35 +1,54 @@
 // __tests__/engine/OrderRouter.test.ts
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { OrderRouter } from '../../src/engine/OrderRouter.js';
-import { Connection } from '@solana/web3.js';
+import { Connection, Keypair } from '@solana/web3.js';
 import Redis from 'ioredis';
 import { PumpFunAdapter } from '../../src/adapters/PumpFunAdapter.js';
+import { PumpSwapAdapter } from '../../src/adapters/PumpSwapAdapter.js';
+import { KeypairSigner } from '../../src/lib/security/KeypairSigner.js';
+import { BlockhashPrefetcher } from '../../src/engine/BlockhashPrefetcher.js';
 
 describe('OrderRouter', () => {
   let router: OrderRouter;
   const mockRedis = new Redis();
   const mockConnection = new Connection('http://localhost:8899');
-  const mockPumpAdapter = new PumpFunAdapter(mockRedis, console, mockConnection);
+  const mockPumpAdapter = new PumpFunAdapter(mockRedis, console, mockConnection, Keypair.generate().publicKey);
+  const mockPumpSwapAdapter = new PumpSwapAdapter(mockRedis, console, mockConnection, Keypair.generate().publicKey);
+  const chainState = new BlockhashPrefetcher(mockConnection, { refreshIntervalMs: 1000, maxAgeMs: 10_000, commitment: 'confirmed' });
+
+  // Every signature confirms at the bundle's landing slot
+  function mockConfirmations() {
+    vi.spyOn(mockConnection, 'getBlockHeight').mockResolvedValue(100);
+    vi.spyOn(mockConnection, 'getSignatureStatuses').mockImplementation(async signatures => ({
+      context: { slot: 250_000_000 },
+      value: signatures.map(() => ({ slot: 250_000_000, confirmations: 1, err: null, confirmationStatus: 'confirmed' as const })),
+    }));
+    // Fills fall back to the requested amount when the transaction cannot be read
+    vi.spyOn(mockConnection, 'getTransaction').mockRejectedValue(new Error('not indexed'));
+  }
 
   beforeEach(() => {
     vi.resetAllMocks();
     process.env.JITO_BLOCK_ENGINE_URL = 'http://localhost:8899';
     process.env.SOLANA_RPC_URL = 'http://localhost:8899';
+    vi.spyOn(chainState, 'current').mockReturnValue({
+      blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 300, slot: 250_000_000, fetchedAt: Date.now(),
+    });
 
     router = new OrderRouter(
       {
         redisClient: mockRedis,
+        signer: new KeypairSigner(Keypair.generate()),
         solanaConnection: mockConnection,
-        pumpFunAdapter: mockPumpAdapter,
-        jitoTipAccount: {} as JitoTipAccount,
+        adapters: [mockPumpAdapter, mockPumpSwapAdapter],
         circuitBreakerThreshold: 3,
         circuitBreakerTimeout: 30000,
         tipLamports: 10000,
         maxRetries: 2,
         bundleTimeout: 5000,
+        chainState,
       },
       mockPumpAdapter,
-      mockConnection,
       mockRedis
     );
   });
@@ -44,7 +63,17 @@ describe('OrderRouter', () => {
   });
 
   it('should execute a buy order successfully', async () => {
-    vi.spyOn(mockPumpAdapter, 'createBuyTransaction').mockResolvedValue(new Transaction());
+    vi.spyOn(mockPumpAdapter, 'createBuyInstructions').mockResolvedValue([]);
+    vi.spyOn((router as any).blockEngine, 'getTipAccounts').mockResolvedValue(['96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5']);
+    vi.spyOn((router as any).blockEngine, 'sendBundle').mockResolvedValue('bundle-1');
+    vi.spyOn((router as any).blockEngine, 'waitForBundle').mockResolvedValue({
+      bundleId: 'bundle-1', status: 'landed', signatures: [], slot: 250_000_000,
+    });
+    mockConfirmations();
+    vi.spyOn(mockConnection, 'simulateTransaction').mockResolvedValue({
+      context: { slot: 1 },
+      value: { err: null, logs: [], accounts: null, unitsConsumed: 50_000 },
+    });
     const result = await router.executeOrder({
       type: 'buy',
       tokenAddress: 'TokenAddress123',
@@ -55,5 +84,45 @@ describe('OrderRouter', () => {
     expect(result.success).toBe(true);
     expect(result.executionTime).toBeGreaterThan(0);
     expect(result.bundleMetrics?.tipAmount).toBeGreaterThan(0);
+    expect(result.bundleMetrics?.priorityFee).toBeGreaterThan(0);
+    expect(result.simulation?.computeUnitLimit).toBe(55_000);
+    expect(result.transactionId).toMatch(/^[1-9A-HJ-NP-Za-km-z]{64,88}$/);
+    expect(result.landedVia).toBe('jito');
+    expect(result.bundleMetrics?.landedSlot).toBe(250_000_000);
+    expect(result.bundleMetrics?.tipAccount).toBe('96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5');
+    expect(result.bundleMetrics?.tipPaid).toBe(result.bundleMetrics?.tipAmount);
+  });
+
+  it('should submit a group of orders as one bundle with per-leg results', async () => {
+    vi.spyOn(mockPumpAdapter, 'createSellInstructions').mockResolvedValue([]);
+    vi.spyOn(mockPumpAdapter, 'createBuyInstructions').mockResolvedValue([]);
+    vi.spyOn((router as any).blockEngine, 'getTipAccounts').mockResolvedValue(['96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5']);
+    const sendBundle = vi.spyOn((router as any).blockEngine, 'sendBundle').mockResolvedValue('bundle-2');
+    vi.spyOn((router as any).blockEngine, 'waitForBundle').mockResolvedValue({
+      bundleId: 'bundle-2', status: 'landed', signatures: [], slot: 250_000_001,
+    });
+    mockConfirmations();
+    vi.spyOn(mockConnection, 'simulateTransaction').mockResolvedValue({
+      context: { slot: 1 },
+      value: { err: null, logs: [], accounts: null, unitsConsumed: 50_000 },
+    });
+    const result = await router.executeBundle([
+      { type: 'sell', tokenAddress: 'TokenAddress123', amountLamports: 500_000_000, maxSlippageBps: 50 },
+      { type: 'buy', tokenAddress: 'TokenAddress456', amountLamports: 1_000_000_000, maxSlippageBps: 50 },
+    ]);
+    expect(result.success).toBe(true);
+    expect(result.bundleId).toBe('bundle-2');
+    expect(sendBundle.mock.calls[0]![0]).toHaveLength(2);
+    expect(new Set(result.legs.map(leg => leg.transactionId)).size).toBe(2);
+    expect(result.legs[0]!.bundleMetrics?.tipPaid).toBe(0);
+    expect(result.legs[1]!.bundleMetrics?.tipPaid).toBe(result.legs[1]!.bundleMetrics?.tipAmount);
+  });
+
+  it('should reject bundles larger than maxBundleSize', async () => {
+    const order = { type: 'buy' as const, tokenAddress: 'TokenAddress123', amountLamports: 1_000_000_000, maxSlippageBps: 50 };
+    const result = await router.executeBundle(Array(6).fill(order));
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Bundle must contain/);
+    expect(result.legs).toHaveLength(6);
   });
 });
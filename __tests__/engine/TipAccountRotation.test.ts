@@ -0,0 +1,28 @@
+// __tests__/engine/TipAccountRotation.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { TipAccountRotation } from '../../src/engine/TipAccountRotation.js';
+import { JITO_TIP_ACCOUNTS } from '../../src/lib/security/SigningPolicy.js';
+
+describe('TipAccountRotation', () => {
+  it('should rotate across the block engine tip accounts', async () => {
+    const advertised = JITO_TIP_ACCOUNTS.slice(0, 3).map(account => account.toBase58());
+    const blockEngine = { getTipAccounts: vi.fn().mockResolvedValue(advertised) };
+    const draws = [0, 0.5, 0.99];
+    const rotation = new TipAccountRotation(blockEngine, 60_000, () => draws.shift() ?? 0);
+
+    const picked = [await rotation.next(), await rotation.next(), await rotation.next()].map(account => account.toBase58());
+
+    expect(picked).toEqual(advertised);
+    expect(blockEngine.getTipAccounts).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore unknown accounts and fall back to the known list when the engine is unreachable', async () => {
+    const unknown = Keypair.generate().publicKey.toBase58();
+    const rotation = new TipAccountRotation({ getTipAccounts: vi.fn().mockResolvedValue([unknown]) }, 0, () => 0);
+    expect((await rotation.next()).equals(JITO_TIP_ACCOUNTS[0]!)).toBe(true);
+
+    const offline = new TipAccountRotation({ getTipAccounts: vi.fn().mockRejectedValue(new Error('down')) }, 0, () => 0.999);
+    expect((await offline.next()).equals(JITO_TIP_ACCOUNTS[JITO_TIP_ACCOUNTS.length - 1]!)).toBe(true);
+  });
+});
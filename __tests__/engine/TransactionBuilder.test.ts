@@ -0,0 +1,54 @@
+// __tests__/engine/TransactionBuilder.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  SystemProgram,
+} from '@solana/web3.js';
+import { TransactionBuilder } from '../../src/engine/TransactionBuilder.js';
+
+describe('TransactionBuilder', () => {
+  const payer = Keypair.generate().publicKey;
+  const recipient = Keypair.generate().publicKey;
+  const params = {
+    payer,
+    instructions: [SystemProgram.transfer({ fromPubkey: payer, toPubkey: recipient, lamports: 1 })],
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    computeUnitLimit: 150_000,
+    computeUnitPrice: 25_000,
+  };
+
+  it('should compile a v0 message with compute budget instructions first', async () => {
+    const transaction = await new TransactionBuilder(new Connection('http://localhost:8899')).build(params);
+    const { message } = transaction;
+
+    expect(message.version).toBe(0);
+    expect(message.staticAccountKeys[0]!.equals(payer)).toBe(true);
+    expect(message.compiledInstructions).toHaveLength(3);
+    const [limit, price] = message.compiledInstructions.map(ix => message.staticAccountKeys[ix.programIdIndex]!);
+    expect(limit!.equals(ComputeBudgetProgram.programId)).toBe(true);
+    expect(price!.equals(ComputeBudgetProgram.programId)).toBe(true);
+    expect(Buffer.from(message.compiledInstructions[0]!.data).readUInt32LE(1)).toBe(150_000);
+    expect(Buffer.from(message.compiledInstructions[1]!.data).readBigUInt64LE(1)).toBe(25_000n);
+  });
+
+  it('should load lookup tables once and resolve accounts through them', async () => {
+    const connection = new Connection('http://localhost:8899');
+    const tableKey = Keypair.generate().publicKey;
+    const table = new AddressLookupTableAccount({
+      key: tableKey,
+      state: { deactivationSlot: BigInt('18446744073709551615'), lastExtendedSlot: 0, lastExtendedSlotStartIndex: 0, addresses: [recipient] },
+    });
+    const getTable = vi.spyOn(connection, 'getAddressLookupTable').mockResolvedValue({ context: { slot: 1 }, value: table });
+    const builder = new TransactionBuilder(connection, [tableKey]);
+
+    const transaction = await builder.build(params);
+    await builder.build(params);
+
+    expect(getTable).toHaveBeenCalledTimes(1);
+    expect(transaction.message.addressTableLookups).toHaveLength(1);
+    expect(transaction.message.staticAccountKeys.some(key => key.equals(recipient))).toBe(false);
+  });
+});
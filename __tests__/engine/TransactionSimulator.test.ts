@@ -0,0 +1,64 @@
+// __tests__/engine/TransactionSimulator.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { Connection, Keypair, SystemProgram, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { SimulationError, TransactionSimulator } from '../../src/engine/TransactionSimulator.js';
+
+function unsignedTransaction(): VersionedTransaction {
+  const payer = Keypair.generate().publicKey;
+  return new VersionedTransaction(new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    instructions: [SystemProgram.transfer({ fromPubkey: payer, toPubkey: Keypair.generate().publicKey, lamports: 1 })],
+  }).compileToV0Message());
+}
+
+function simulatorReturning(value: { err: unknown; logs: string[]; unitsConsumed?: number }) {
+  const connection = new Connection('http://localhost:8899');
+  vi.spyOn(connection, 'simulateTransaction').mockResolvedValue({ context: { slot: 1 }, value: { accounts: null, ...value } } as never);
+  return new TransactionSimulator(connection, { headroom: 0.2, fallbackComputeUnitLimit: 200_000 });
+}
+
+async function simulationError(simulator: TransactionSimulator): Promise<SimulationError> {
+  const error = await simulator.simulate(unsignedTransaction()).catch(e => e);
+  expect(error).toBeInstanceOf(SimulationError);
+  return error as SimulationError;
+}
+
+describe('TransactionSimulator', () => {
+  it('should size the compute-unit limit from simulated usage plus headroom', async () => {
+    const result = await simulatorReturning({ err: null, logs: ['Program log: Instruction: Buy'], unitsConsumed: 41_000 })
+      .simulate(unsignedTransaction());
+
+    expect(result.unitsConsumed).toBe(41_000);
+    expect(result.computeUnitLimit).toBe(49_200);
+    expect(result.logs).toEqual(['Program log: Instruction: Buy']);
+
+    const unreported = await simulatorReturning({ err: null, logs: [] }).simulate(unsignedTransaction());
+    expect(unreported.computeUnitLimit).toBe(200_000);
+  });
+
+  it('should flag slippage and insufficient funds as deterministic', async () => {
+    const slippage = await simulationError(simulatorReturning({
+      err: { InstructionError: [2, { Custom: 6002 }] },
+      logs: ['Program log: AnchorError occurred. Error Code: TooMuchSolRequired. Error Number: 6002.'],
+    }));
+    expect(slippage.reason).toBe('slippage');
+    expect(slippage.deterministic).toBe(true);
+
+    const funds = await simulationError(simulatorReturning({ err: 'InsufficientFundsForFee', logs: [] }));
+    expect(funds.reason).toBe('insufficient_funds');
+    expect(funds.deterministic).toBe(true);
+  });
+
+  it('should leave transient failures retryable', async () => {
+    const blockhash = await simulationError(simulatorReturning({ err: 'BlockhashNotFound', logs: [] }));
+    expect(blockhash.reason).toBe('blockhash_not_found');
+    expect(blockhash.deterministic).toBe(false);
+
+    const connection = new Connection('http://localhost:8899');
+    vi.spyOn(connection, 'simulateTransaction').mockRejectedValue(new Error('fetch failed'));
+    const rpc = await simulationError(new TransactionSimulator(connection, { headroom: 0.1, fallbackComputeUnitLimit: 200_000 }));
+    expect(rpc.reason).toBe('rpc_error');
+    expect(rpc.deterministic).toBe(false);
+  });
+});
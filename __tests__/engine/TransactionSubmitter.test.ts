@@ -0,0 +1,89 @@
+// __tests__/engine/TransactionSubmitter.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { Connection } from '@solana/web3.js';
+import { TransactionSubmitter, TransactionSubmitterOptions } from '../../src/engine/TransactionSubmitter.js';
+import { BlockEngineError } from '../../src/engine/JitoBlockEngineClient.js';
+import { ConfirmationTracker } from '../../src/engine/ConfirmationTracker.js';
+
+const options: TransactionSubmitterOptions = {
+  mode: 'jito',
+  failoverThreshold: 2,
+  failoverCooldownMs: 60_000,
+  timeoutMs: 1_000,
+};
+
+const batch = { transactions: [Buffer.from([1])], signatures: ['5igOne'], expiries: [{ lastValidBlockHeight: 500 }] };
+
+function rpcConnection() {
+  return {
+    sendRawTransaction: vi.fn().mockResolvedValue('5igOne'),
+    getSignatureStatuses: vi.fn().mockResolvedValue({
+      context: { slot: 2 },
+      value: [{ slot: 123, confirmations: 1, err: null, confirmationStatus: 'confirmed' }],
+    }),
+    getBlockHeight: vi.fn().mockResolvedValue(400),
+  };
+}
+
+function createSubmitter(connection: ReturnType<typeof rpcConnection>, blockEngine: any, mode = options.mode) {
+  const tracker = new ConfirmationTracker(connection as unknown as Connection, {
+    commitment: 'confirmed',
+    pollIntervalMs: 10,
+    rebroadcastIntervalMs: 1_000,
+    maxTrackingMs: 1_000,
+  });
+  return new TransactionSubmitter(connection as unknown as Connection, blockEngine, tracker, { ...options, mode });
+}
+
+describe('TransactionSubmitter', () => {
+  it('should fail over to RPC after repeated block engine errors', async () => {
+    const blockEngine = {
+      sendBundle: vi.fn().mockRejectedValue(new BlockEngineError('sendBundle', 'HTTP 503', 503)),
+      waitForBundle: vi.fn(),
+    };
+    const connection = rpcConnection();
+    const submitter = createSubmitter(connection, blockEngine);
+
+    for (let i = 0; i < options.failoverThreshold; i++) {
+      expect(submitter.plan(1)).toEqual(['jito']);
+      await expect(submitter.submit(batch, ['jito'])).rejects.toThrow(BlockEngineError);
+    }
+
+    expect(submitter.plan(1)).toEqual(['rpc']);
+    expect(() => submitter.plan(2)).toThrow(/failed over/);
+    const result = await submitter.submit(batch, submitter.plan(1));
+    expect(result).toEqual({ landedVia: 'rpc', signatures: ['5igOne'], slot: 123 });
+    expect(connection.sendRawTransaction).toHaveBeenCalledWith(batch.transactions[0], { skipPreflight: true });
+  });
+
+  it('should race both paths and report the one that landed', async () => {
+    const blockEngine = {
+      sendBundle: vi.fn().mockResolvedValue('bundle-1'),
+      waitForBundle: vi.fn().mockResolvedValue({ bundleId: 'bundle-1', status: 'dropped', signatures: [] }),
+    };
+    const submitter = createSubmitter(rpcConnection(), blockEngine, 'race');
+
+    const paths = submitter.plan(1);
+    expect(paths).toEqual(['jito', 'rpc']);
+    const result = await submitter.submit(batch, paths);
+    expect(result.landedVia).toBe('rpc');
+    expect(result.signatures).toEqual(['5igOne']);
+  });
+
+  it('should stop the losing path once the race is decided', async () => {
+    let jitoSignal: AbortSignal | undefined;
+    const blockEngine = {
+      sendBundle: vi.fn().mockResolvedValue('bundle-1'),
+      // The block engine never reaches a verdict on its own
+      waitForBundle: vi.fn((_bundleId: string, _timeoutMs: number, signal: AbortSignal) => {
+        jitoSignal = signal;
+        return new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+      }),
+    };
+    const submitter = createSubmitter(rpcConnection(), blockEngine, 'race');
+
+    const result = await submitter.submit(batch, ['jito', 'rpc']);
+    expect(result.landedVia).toBe('rpc');
+    expect(jitoSignal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,54 @@
+// __tests__/engine/VenueSelector.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { VenueSelector } from '../../src/engine/VenueSelector.js';
+import { ExchangeAdapter } from '../../src/interfaces/ExchangeAdapter.js';
+
+function mockAdapter(venue: string, available: boolean, amountOut: bigint): ExchangeAdapter {
+  return {
+    venue,
+    quote: vi.fn().mockResolvedValue({
+      side: 'buy', amountIn: 1_000_000_000n, amountOut, fee: 0n, spotPrice: 0, executionPrice: 0, priceImpact: 0,
+      minAmountOut: amountOut, maxAmountIn: 1_000_000_000n, venue, tokenAddress: 'Token',
+    }),
+    createBuyInstructions: vi.fn().mockResolvedValue([]),
+    createSellInstructions: vi.fn().mockResolvedValue([]),
+    getVenueHealth: vi.fn().mockResolvedValue({ venue, available, reason: available ? undefined : 'down', checkedAt: Date.now() }),
+  };
+}
+
+describe('VenueSelector', () => {
+  it('should pick the available venue with the best quote', async () => {
+    const selector = new VenueSelector([mockAdapter('pumpfun', true, 100n), mockAdapter('pumpswap', true, 120n)]);
+    const { adapter, quote } = await selector.select('buy', 'Token', 1, 0.01);
+    expect(adapter.venue).toBe('pumpswap');
+    expect(quote.amountOut).toBe(120n);
+  });
+
+  it('should skip unavailable and disabled venues', async () => {
+    const curve = mockAdapter('pumpfun', true, 200n);
+    const selector = new VenueSelector([curve, mockAdapter('pumpswap', true, 120n)]);
+    selector.disableVenue('Token', 'pumpfun');
+    expect((await selector.select('buy', 'Token', 1, 0.01)).adapter.venue).toBe('pumpswap');
+    expect(curve.getVenueHealth).not.toHaveBeenCalled();
+  });
+
+  it('should size sells in tokens at each venue spot price', async () => {
+    const pool = mockAdapter('pumpswap', true, 0n);
+    vi.mocked(pool.quote).mockImplementation(async (side, tokenAddress, amount) => ({
+      side, amountIn: BigInt(Math.round(amount * 1e6)), amountOut: BigInt(Math.round(amount * 0.00002 * 1e9)), fee: 0n,
+      spotPrice: 0.00002, executionPrice: 0.00002, priceImpact: 0, minAmountOut: 0n, maxAmountIn: 0n, venue: 'pumpswap', tokenAddress,
+    }));
+    const selector = new VenueSelector([pool]);
+
+    const { adapter, amountTokens, quote } = await selector.selectSell('Token', 0.5, 0.01);
+    expect(adapter.venue).toBe('pumpswap');
+    expect(amountTokens).toBeCloseTo(25_000);
+    expect(quote.amountOut).toBe(500_000_000n);
+    expect(pool.quote).toHaveBeenLastCalledWith('sell', 'Token', amountTokens, 0.01);
+  });
+
+  it('should explain why no venue is available', async () => {
+    const selector = new VenueSelector([mockAdapter('pumpfun', false, 0n)]);
+    await expect(selector.select('sell', 'Token', 1, 0.01)).rejects.toThrow('pumpfun: down');
+  });
+});
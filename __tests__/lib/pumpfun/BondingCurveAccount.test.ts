@@ -0,0 +1,52 @@
+// __tests__/lib/pumpfun/BondingCurveAccount.test.ts
+import { describe, it, expect } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import {
+  BONDING_CURVE_DISCRIMINATOR,
+  PUMP_FUN_PROGRAM_ID,
+  decodeBondingCurveAccount,
+  deriveBondingCurveAddress,
+  parseBondingCurveAccountInfo,
+} from '../../../src/lib/pumpfun/BondingCurveAccount.js';
+
+function encodeCurve(values: bigint[], complete: boolean): Buffer {
+  const data = Buffer.alloc(49);
+  BONDING_CURVE_DISCRIMINATOR.copy(data, 0);
+  values.forEach((value, i) => data.writeBigUInt64LE(value, 8 + i * 8));
+  data.writeUInt8(complete ? 1 : 0, 48);
+  return data;
+}
+
+describe('BondingCurveAccount', () => {
+  const mint = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+
+  it('should derive a deterministic PDA from the mint', () => {
+    const address = deriveBondingCurveAddress(mint);
+    const [expected] = PublicKey.findProgramAddressSync([Buffer.from('bonding-curve'), mint.toBuffer()], PUMP_FUN_PROGRAM_ID);
+    expect(address.equals(expected)).toBe(true);
+  });
+
+  it('should decode reserves, supply and completion flag', () => {
+    const data = encodeCurve([1_073_000_000_000_000n, 30_000_000_000n, 793_100_000_000_000n, 0n, 1_000_000_000_000_000n], true);
+    const account = decodeBondingCurveAccount(data);
+    expect(account.virtualTokenReserves).toBe(1_073_000_000_000_000n);
+    expect(account.virtualSolReserves).toBe(30_000_000_000n);
+    expect(account.realTokenReserves).toBe(793_100_000_000_000n);
+    expect(account.realSolReserves).toBe(0n);
+    expect(account.tokenTotalSupply).toBe(1_000_000_000_000_000n);
+    expect(account.complete).toBe(true);
+  });
+
+  it('should reject buffers with the wrong discriminator or length', () => {
+    const data = encodeCurve([1n, 1n, 1n, 1n, 1n], false);
+    data[0] = 0;
+    expect(() => decodeBondingCurveAccount(data)).toThrow('not a Pump.fun bonding curve');
+    expect(() => decodeBondingCurveAccount(Buffer.alloc(16))).toThrow('too short');
+  });
+
+  it('should reject accounts not owned by the Pump.fun program', () => {
+    const data = encodeCurve([1n, 1n, 1n, 1n, 1n], false);
+    expect(() => parseBondingCurveAccountInfo({ data, owner: mint, lamports: 1, executable: false }))
+      .toThrow('unexpected program');
+  });
+});
@@ -0,0 +1,59 @@
+// __tests__/lib/pumpfun/BondingCurveMath.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  BondingCurveReserves,
+  getSpotPrice,
+  maxInWithSlippage,
+  minOutWithSlippage,
+  quoteBuyExactIn,
+  quoteBuyExactOut,
+  quoteSellExactIn,
+  quoteSellExactOut,
+} from '../../../src/lib/pumpfun/BondingCurveMath.js';
+
+// Reserves of a freshly launched Pump.fun curve
+const freshCurve: BondingCurveReserves = {
+  virtualSolReserves: 30_000_000_000n,
+  virtualTokenReserves: 1_073_000_000_000_000n,
+  realSolReserves: 0n,
+  realTokenReserves: 793_100_000_000_000n,
+};
+
+describe('BondingCurveMath', () => {
+  it('should derive spot price from virtual reserves', () => {
+    expect(getSpotPrice(freshCurve)).toBeCloseTo(30 / 1_073_000_000, 15);
+  });
+
+  it('should quote a buy with fee and price impact', () => {
+    const quote = quoteBuyExactIn(freshCurve, 1_010_000_000n);
+    expect(quote.fee).toBe(10_000_000n);
+    // 1 SOL into the curve: 1.073e15 * 1e9 / 31e9 base units
+    expect(quote.amountOut).toBe(34_612_903_225_806n);
+    expect(quote.executionPrice).toBeGreaterThan(quote.spotPrice);
+    expect(quote.priceImpact).toBeGreaterThan(0.03);
+  });
+
+  it('should round-trip exact-out buy quotes against exact-in', () => {
+    const exactOut = quoteBuyExactOut(freshCurve, 34_612_903_225_806n);
+    const exactIn = quoteBuyExactIn(freshCurve, exactOut.amountIn);
+    expect(exactIn.amountOut).toBeGreaterThanOrEqual(34_612_903_225_806n);
+  });
+
+  it('should quote sells net of fee and round-trip exact-out', () => {
+    const curve = { ...freshCurve, realSolReserves: 5_000_000_000n };
+    const quote = quoteSellExactIn(curve, 10_000_000_000_000n);
+    expect(quote.amountOut + quote.fee).toBe(277_008_310n);
+
+    const exactOut = quoteSellExactOut(curve, quote.amountOut);
+    expect(exactOut.amountIn).toBeLessThanOrEqual(10_000_000_000_000n);
+  });
+
+  it('should reject sells larger than real SOL reserves', () => {
+    expect(() => quoteSellExactIn(freshCurve, 1_000_000n)).toThrow('Sell exceeds curve SOL reserves');
+  });
+
+  it('should derive slippage bounds', () => {
+    expect(minOutWithSlippage(1_000_000n, 0.005)).toBe(995_000n);
+    expect(maxInWithSlippage(1_000_000n, 0.005)).toBe(1_005_000n);
+  });
+});
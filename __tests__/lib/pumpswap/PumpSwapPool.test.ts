@@ -0,0 +1,47 @@
+// __tests__/lib/pumpswap/PumpSwapPool.test.ts
+import { describe, it, expect } from 'vitest';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import {
+  POOL_ACCOUNT_SIZE,
+  PUMP_SWAP_PROGRAM_ID,
+  decodePoolAccount,
+  deriveCanonicalPoolAddress,
+  quotePoolBuy,
+  quotePoolSell,
+} from '../../../src/lib/pumpswap/PumpSwapPool.js';
+
+describe('PumpSwapPool', () => {
+  const reserves = { baseReserves: 200_000_000_000_000n, quoteReserves: 80_000_000_000n };
+
+  it('should derive the canonical migration pool off-curve under the AMM program', () => {
+    const mint = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+    const pool = deriveCanonicalPoolAddress(mint);
+    expect(PublicKey.isOnCurve(pool.toBytes())).toBe(false);
+    expect(pool.equals(deriveCanonicalPoolAddress(mint))).toBe(true);
+    expect(PUMP_SWAP_PROGRAM_ID.toBase58()).toBe('pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA');
+  });
+
+  it('should decode pool vault addresses', () => {
+    const keys = Array.from({ length: 6 }, () => Keypair.generate().publicKey);
+    const data = Buffer.alloc(POOL_ACCOUNT_SIZE);
+    keys.forEach((key, i) => key.toBuffer().copy(data, 11 + i * 32));
+    const pool = decodePoolAccount(data);
+    expect(pool.baseMint.equals(keys[1]!)).toBe(true);
+    expect(pool.poolBaseTokenAccount.equals(keys[4]!)).toBe(true);
+    expect(pool.poolQuoteTokenAccount.equals(keys[5]!)).toBe(true);
+  });
+
+  it('should quote buys and sells with the AMM fee', () => {
+    const buy = quotePoolBuy(reserves, 1_000_000_000n);
+    expect(buy.fee).toBe(2_500_000n);
+    expect(buy.amountOut).toBe(2_463_038_982_684n);
+
+    const sell = quotePoolSell(reserves, buy.amountOut);
+    expect(sell.amountOut).toBeLessThan(1_000_000_000n);
+    expect(sell.priceImpact).toBeGreaterThan(0);
+  });
+
+  it('should reject empty pools', () => {
+    expect(() => quotePoolBuy({ baseReserves: 0n, quoteReserves: 0n }, 1n)).toThrow('Pool has no liquidity');
+  });
+});
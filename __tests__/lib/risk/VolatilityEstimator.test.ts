@@ -0,0 +1,57 @@
+// __tests__/lib/risk/VolatilityEstimator.test.ts
+import { describe, it, expect } from 'vitest';
+import { VolatilityEstimator } from '../../../src/lib/risk/VolatilityEstimator.js';
+
+const TOKEN = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+function estimator() {
+  return new VolatilityEstimator({ barIntervalMs: 1000, ewmaLambda: 0.9, window: 2, targetVolatility: 0.02, maxSpreadMultiplier: 3 });
+}
+
+describe('VolatilityEstimator', () => {
+  it('should report no volatility for a flat or unknown token', () => {
+    const volatility = estimator();
+    for (let t = 0; t < 5000; t += 250) volatility.observe(TOKEN, 0.001, t);
+
+    expect(volatility.estimate(TOKEN)).toEqual({ ewma: 0, parkinson: 0, volatility: 0, bars: 2 });
+    expect(volatility.getSpreadMultiplier(TOKEN)).toBe(1);
+    expect(volatility.estimate('unknown').bars).toBe(0);
+  });
+
+  it('should combine close-to-close EWMA with the Parkinson range of completed bars', () => {
+    const volatility = estimator();
+    volatility.observe(TOKEN, 1.0, 0);
+    volatility.observe(TOKEN, 1.2, 500);
+    volatility.observe(TOKEN, 1.1, 900);
+    volatility.observe(TOKEN, 1.1, 1000);
+    volatility.observe(TOKEN, 1.21, 1500);
+    // Late observations do not reopen a closed bar
+    volatility.observe(TOKEN, 5, 800);
+    volatility.observe(TOKEN, 1.21, 2000);
+
+    const estimate = volatility.estimate(TOKEN);
+    expect(estimate.bars).toBe(2);
+    expect(estimate.ewma).toBeCloseTo(Math.log(1.1));
+    expect(estimate.parkinson).toBeCloseTo(Math.sqrt((Math.log(1.2) ** 2 + Math.log(1.1) ** 2) / (8 * Math.LN2)));
+    expect(estimate.volatility).toBe(Math.max(estimate.ewma, estimate.parkinson));
+    expect(volatility.getSpreadMultiplier(TOKEN)).toBe(3);
+  });
+
+  it('should decay the EWMA and roll the Parkinson window once prices calm down', () => {
+    const volatility = estimator();
+    volatility.observe(TOKEN, 1.0, 0);
+    volatility.observe(TOKEN, 1.01, 1000);
+    volatility.observe(TOKEN, 1.01, 2000);
+    const { ewma } = volatility.estimate(TOKEN);
+    expect(ewma).toBeCloseTo(Math.log(1.01));
+    for (const t of [3000, 4000, 5000]) volatility.observe(TOKEN, 1.01, t);
+
+    const calm = volatility.estimate(TOKEN);
+    expect(calm.parkinson).toBe(0);
+    expect(calm.ewma).toBeCloseTo(ewma * Math.sqrt(0.9 ** 3));
+    expect(volatility.getSpreadMultiplier(TOKEN)).toBeCloseTo(1 + calm.ewma / 0.02);
+
+    volatility.forget(TOKEN);
+    expect(volatility.estimate(TOKEN).bars).toBe(0);
+  });
+});
@@ -0,0 +1,55 @@
+// __tests__/lib/rpc/RpcPool.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { Connection, SolanaJSONRPCError } from '@solana/web3.js';
+import { RpcPool, RpcPoolOptions } from '../../../src/lib/rpc/RpcPool.js';
+
+const options: RpcPoolOptions = { commitment: 'confirmed', healthCheckIntervalMs: 60_000, maxSlotLag: 20 };
+
+function fakeConnection(slot: number) {
+  return {
+    getSlot: vi.fn().mockResolvedValue(slot),
+    getBalance: vi.fn().mockResolvedValue(1_000),
+    onSlotChange: vi.fn().mockReturnValue(7),
+  };
+}
+
+function createPool(connections: Record<string, ReturnType<typeof fakeConnection>>): RpcPool {
+  return new RpcPool(Object.keys(connections), options, url => connections[url] as unknown as Connection);
+}
+
+describe('RpcPool', () => {
+  it('should route calls away from a lagging endpoint and keep subscriptions on the primary', async () => {
+    const primary = fakeConnection(1_000);
+    const secondary = fakeConnection(1_100);
+    const pool = createPool({ 'https://primary.example': primary, 'https://secondary.example': secondary });
+
+    await pool.checkHealth();
+    expect(await pool.connection.getBalance({} as never)).toBe(1_000);
+    expect(secondary.getBalance).toHaveBeenCalledTimes(1);
+    expect(primary.getBalance).not.toHaveBeenCalled();
+    expect(pool.getHealth().map(endpoint => [endpoint.label, endpoint.slotLag, endpoint.healthy])).toEqual([
+      ['primary.example', 100, false],
+      ['secondary.example', 0, true],
+    ]);
+
+    pool.connection.onSlotChange(() => {});
+    expect(primary.onSlotChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail over on transport errors but not on request errors', async () => {
+    const primary = fakeConnection(1_000);
+    const secondary = fakeConnection(1_000);
+    primary.getBalance.mockRejectedValueOnce(new Error('fetch failed'));
+    const pool = createPool({ 'https://primary.example': primary, 'https://secondary.example': secondary });
+
+    expect(await pool.connection.getBalance({} as never)).toBe(1_000);
+    expect(secondary.getBalance).toHaveBeenCalledTimes(1);
+    expect(pool.getHealth()[0]!.errorRate).toBeGreaterThan(0);
+
+    const invalidParams = new SolanaJSONRPCError({ code: -32602, message: 'Invalid param' }, '');
+    primary.getBalance.mockRejectedValueOnce(invalidParams);
+    secondary.getBalance.mockRejectedValueOnce(invalidParams);
+    await expect(pool.connection.getBalance({} as never)).rejects.toBe(invalidParams);
+    expect(primary.getBalance.mock.calls.length + secondary.getBalance.mock.calls.length).toBe(3);
+  });
+});
@@ -0,0 +1,54 @@
+// __tests__/lib/security/BotWallet.test.ts
+import { describe, it, expect } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { inspect } from 'node:util';
+import { BotWallet, encryptKeystore } from '../../../src/lib/security/BotWallet.js';
+
+// Cheap scrypt parameters keep the keystore tests fast
+const TEST_KDF = { N: 2 ** 10, r: 8, p: 1 };
+
+describe('BotWallet', () => {
+  const keypair = Keypair.generate();
+
+  it('should load a base58 secret key', () => {
+    const wallet = BotWallet.fromSecret(bs58.encode(keypair.secretKey));
+    expect(wallet.publicKey.equals(keypair.publicKey)).toBe(true);
+    expect(wallet.getKeypair().secretKey).toEqual(keypair.secretKey);
+  });
+
+  it('should load a JSON byte array secret key', () => {
+    const wallet = BotWallet.fromSecret(JSON.stringify(Array.from(keypair.secretKey)));
+    expect(wallet.publicKey.equals(keypair.publicKey)).toBe(true);
+  });
+
+  it('should reject malformed keys without echoing them', () => {
+    const secret = 'test_private_key_base58_encoded_12345678';
+    expect(() => BotWallet.fromSecret(secret)).toThrow(/BOT_PRIVATE_KEY/);
+    try {
+      BotWallet.fromSecret(secret);
+    } catch (error) {
+      expect((error as Error).message).not.toContain(secret);
+    }
+  });
+
+  it('should decrypt a keystore and reject a wrong passphrase', () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'wallet-')), 'keystore.json');
+    writeFileSync(path, JSON.stringify(encryptKeystore(keypair.secretKey, 'correct horse', TEST_KDF)));
+
+    const wallet = BotWallet.load({ keystorePath: path, passphrase: 'correct horse' });
+    expect(wallet.publicKey.equals(keypair.publicKey)).toBe(true);
+    expect(() => BotWallet.fromKeystore(path, 'wrong')).toThrow('wrong passphrase');
+  });
+
+  it('should never expose the secret key when logged or serialized', () => {
+    const wallet = BotWallet.fromSecret(bs58.encode(keypair.secretKey));
+    const encodedSecret = bs58.encode(keypair.secretKey);
+    expect(JSON.stringify(wallet)).not.toContain(encodedSecret);
+    expect(JSON.stringify({ wallet })).toBe(JSON.stringify({ wallet: { publicKey: keypair.publicKey.toBase58() } }));
+    expect(inspect(wallet)).toBe(`BotWallet(${keypair.publicKey.toBase58()})`);
+  });
+});
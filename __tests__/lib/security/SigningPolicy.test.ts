@@ -0,0 +1,192 @@
+// __tests__/lib/security/SigningPolicy.test.ts
+import { describe, it, expect } from 'vitest';
+import { Connection, Keypair, PublicKey, SystemProgram, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { GlobalConfig, Pool, PumpAmmInternalSdk, SwapSolanaState } from '@pump-fun/pump-swap-sdk';
+import BN from 'bn.js';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PUMP_FUN_PROGRAM_ID } from '../../../src/lib/pumpfun/BondingCurveAccount.js';
+import { PUMP_SWAP_PROGRAM_ID, WSOL_MINT } from '../../../src/lib/pumpswap/PumpSwapPool.js';
+import { KeypairSigner } from '../../../src/lib/security/KeypairSigner.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  JITO_TIP_ACCOUNTS,
+  PolicySigner,
+  PolicyViolationError,
+  SigningPolicy,
+  TOKEN_PROGRAM_ID,
+} from '../../../src/lib/security/SigningPolicy.js';
+import { AuditLog } from '../../../src/monitoring/AuditLog.js';
+
+const BUY_DISCRIMINATOR = [102, 6, 61, 18, 1, 218, 235, 234];
+
+function pumpBuy(payer: PublicKey, amount: bigint, maxSolCost: bigint): TransactionInstruction {
+  const data = Buffer.alloc(24);
+  Buffer.from(BUY_DISCRIMINATOR).copy(data, 0);
+  data.writeBigUInt64LE(amount, 8);
+  data.writeBigUInt64LE(maxSolCost, 16);
+  return new TransactionInstruction({
+    programId: PUMP_FUN_PROGRAM_ID,
+    keys: [{ pubkey: payer, isSigner: true, isWritable: true }],
+    data,
+  });
+}
+
+function tokenInstruction(data: number[], ...accounts: PublicKey[]): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: TOKEN_PROGRAM_ID,
+    keys: accounts.map(pubkey => ({ pubkey, isSigner: false, isWritable: true })),
+    data: Buffer.from(data),
+  });
+}
+
+function approve(source: PublicKey, delegate: PublicKey, owner: PublicKey): TransactionInstruction {
+  const amount = Buffer.alloc(8);
+  amount.writeBigUInt64LE(1_000n);
+  return tokenInstruction([4, ...amount], source, delegate, owner);
+}
+
+function setAuthority(account: PublicKey, current: PublicKey, next: PublicKey | null): TransactionInstruction {
+  // Authority type 2 = AccountOwner; the new authority is an optional key
+  const newAuthority = next ? [1, ...next.toBytes()] : [0];
+  return tokenInstruction([6, 2, ...newAuthority], account, current);
+}
+
+// Swap state for a wallet with neither a token nor a WSOL account, so the SDK emits its full wrap-buy-unwrap sequence
+function pumpSwapState(user: PublicKey): SwapSolanaState {
+  const key = () => Keypair.generate().publicKey;
+  const pool = {
+    baseMint: key(), quoteMint: WSOL_MINT, poolBaseTokenAccount: key(), poolQuoteTokenAccount: key(), coinCreator: key(),
+  } as Pool;
+  return {
+    globalConfig: { protocolFeeRecipients: [key()] } as GlobalConfig,
+    poolKey: key(),
+    poolAccountInfo: { data: Buffer.alloc(300), owner: PUMP_SWAP_PROGRAM_ID, lamports: 1, executable: false },
+    pool,
+    poolBaseAmount: new BN(1_000_000_000_000),
+    poolQuoteAmount: new BN(100_000_000_000),
+    baseTokenProgram: TOKEN_PROGRAM_ID,
+    quoteTokenProgram: TOKEN_PROGRAM_ID,
+    user,
+    userBaseTokenAccount: key(),
+    userQuoteTokenAccount: PublicKey.findProgramAddressSync(
+      [user.toBuffer(), TOKEN_PROGRAM_ID.toBuffer(), WSOL_MINT.toBuffer()],
+      ASSOCIATED_TOKEN_PROGRAM_ID
+    )[0],
+    userBaseAccountInfo: null,
+    userQuoteAccountInfo: null,
+  };
+}
+
+function buildTransaction(payer: PublicKey, ...instructions: TransactionInstruction[]): Transaction {
+  const transaction = new Transaction().add(...instructions);
+  transaction.recentBlockhash = Keypair.generate().publicKey.toBase58();
+  transaction.feePayer = payer;
+  return transaction;
+}
+
+function violationCode(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof PolicyViolationError) return error.code;
+    throw error;
+  }
+  return undefined;
+}
+
+describe('SigningPolicy', () => {
+  const keypair = Keypair.generate();
+  const payer = keypair.publicKey;
+  const treasury = Keypair.generate().publicKey;
+  const policy = new SigningPolicy({
+    maxOutflowLamports: 1_000_000_000n,
+    maxTipLamports: 100_000n,
+    allowedDestinations: [treasury],
+  });
+
+  it('should accept a Pump.fun buy with a Jito tip within limits', () => {
+    const summary = policy.evaluate(buildTransaction(
+      payer,
+      pumpBuy(payer, 1_000_000n, 500_000_000n),
+      SystemProgram.transfer({ fromPubkey: payer, toPubkey: JITO_TIP_ACCOUNTS[0]!, lamports: 50_000 })
+    ), payer);
+
+    expect(summary.outflowLamports).toBe(500_050_000n);
+    expect(summary.tipLamports).toBe(50_000n);
+  });
+
+  it('should count a PumpSwap buy once although the SDK wraps its max cost first', async () => {
+    const sdk = new PumpAmmInternalSdk(new Connection('http://localhost:8899'), PUMP_SWAP_PROGRAM_ID.toBase58());
+    const maxQuoteIn = 600_000_000n;
+    const instructions = await sdk.buyInstructionsInternal(pumpSwapState(payer), new BN(1_000_000), new BN(maxQuoteIn.toString()));
+    expect(instructions.some(instruction => instruction.programId.equals(SystemProgram.programId))).toBe(true);
+
+    const summary = policy.evaluate(buildTransaction(payer, ...instructions), payer);
+    expect(summary.outflowLamports).toBe(maxQuoteIn);
+  });
+
+  it('should reject programs outside the allow-list', () => {
+    const unknown = new TransactionInstruction({ programId: Keypair.generate().publicKey, keys: [], data: Buffer.alloc(0) });
+    expect(violationCode(() => policy.evaluate(buildTransaction(payer, unknown), payer))).toBe('PROGRAM_NOT_ALLOWED');
+  });
+
+  it('should reject unknown instructions of allowed programs', () => {
+    const pumpUnknown = new TransactionInstruction({ programId: PUMP_FUN_PROGRAM_ID, keys: [], data: Buffer.alloc(8, 1) });
+    const mintTo = tokenInstruction([7, 0, 0, 0, 0, 0, 0, 0, 0], Keypair.generate().publicKey, payer, payer);
+
+    expect(violationCode(() => policy.evaluate(buildTransaction(payer, pumpUnknown), payer))).toBe('INSTRUCTION_NOT_ALLOWED');
+    expect(violationCode(() => policy.evaluate(buildTransaction(payer, mintTo), payer))).toBe('INSTRUCTION_NOT_ALLOWED');
+  });
+
+  it('should only let Approve and SetAuthority hand control to the signer', () => {
+    const tokenAccount = Keypair.generate().publicKey;
+    const stranger = Keypair.generate().publicKey;
+    const evaluate = (instruction: TransactionInstruction) => violationCode(() => policy.evaluate(buildTransaction(payer, instruction), payer));
+
+    expect(evaluate(approve(tokenAccount, payer, payer))).toBeUndefined();
+    expect(evaluate(approve(tokenAccount, stranger, payer))).toBe('INSTRUCTION_NOT_ALLOWED');
+    expect(evaluate(setAuthority(tokenAccount, payer, payer))).toBeUndefined();
+    expect(evaluate(setAuthority(tokenAccount, payer, stranger))).toBe('INSTRUCTION_NOT_ALLOWED');
+    expect(evaluate(setAuthority(tokenAccount, payer, null))).toBe('INSTRUCTION_NOT_ALLOWED');
+  });
+
+  it('should enforce outflow, tip and destination limits', () => {
+    const overspend = buildTransaction(payer, pumpBuy(payer, 1n, 2_000_000_000n));
+    const bigTip = buildTransaction(payer, SystemProgram.transfer({ fromPubkey: payer, toPubkey: JITO_TIP_ACCOUNTS[3]!, lamports: 200_000 }));
+    const stranger = buildTransaction(payer, SystemProgram.transfer({ fromPubkey: payer, toPubkey: Keypair.generate().publicKey, lamports: 1 }));
+    const toTreasury = buildTransaction(payer, SystemProgram.transfer({ fromPubkey: payer, toPubkey: treasury, lamports: 1 }));
+
+    expect(violationCode(() => policy.evaluate(overspend, payer))).toBe('SOL_OUTFLOW_EXCEEDED');
+    expect(violationCode(() => policy.evaluate(bigTip, payer))).toBe('TIP_EXCEEDED');
+    expect(violationCode(() => policy.evaluate(stranger, payer))).toBe('DESTINATION_NOT_ALLOWED');
+    expect(violationCode(() => policy.evaluate(toTreasury, payer))).toBeUndefined();
+  });
+
+  it('should count seeded nonce account rent and reject nonces under another authority', async () => {
+    const seed = 'mm-nonce-0';
+    const noncePubkey = await PublicKey.createWithSeed(payer, seed, SystemProgram.programId);
+    const create = (authorizedPubkey: PublicKey) => buildTransaction(payer, ...SystemProgram.createNonceAccount({
+      fromPubkey: payer, noncePubkey, basePubkey: payer, seed, authorizedPubkey, lamports: 1_447_680,
+    }).instructions);
+
+    expect(policy.evaluate(create(payer), payer).outflowLamports).toBe(1_447_680n);
+    expect(violationCode(() => policy.evaluate(create(treasury), payer))).toBe('INSTRUCTION_NOT_ALLOWED');
+  });
+
+  it('should reject before signing and write the audit log', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'audit-')), 'nested', 'audit.log');
+    const signer = new PolicySigner(new KeypairSigner(keypair), policy, new AuditLog(path));
+    const transaction = buildTransaction(payer, pumpBuy(payer, 1n, 5_000_000_000n));
+
+    await expect(signer.signTransaction(transaction)).rejects.toBeInstanceOf(PolicyViolationError);
+    expect(transaction.signature).toBeNull();
+
+    const [entry] = readFileSync(path, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(entry).toMatchObject({ event: 'signing_rejected', code: 'SOL_OUTFLOW_EXCEEDED', signer: payer.toBase58() });
+
+    const signed = await signer.signTransaction(buildTransaction(payer, pumpBuy(payer, 1n, 1_000n)));
+    expect(signed.verifySignatures()).toBe(true);
+  });
+});
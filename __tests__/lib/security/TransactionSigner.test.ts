@@ -0,0 +1,112 @@
+// __tests__/lib/security/TransactionSigner.test.ts
+import { describe, it, expect } from 'vitest';
+import { Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { createPrivateKey, sign } from 'node:crypto';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { KeypairSigner } from '../../../src/lib/security/KeypairSigner.js';
+import { HardwareSecurityModule, LedgerSolanaApp } from '../../../src/lib/security/HardwareSecurityModule.js';
+import { RemoteSigner } from '../../../src/lib/security/RemoteSigner.js';
+import { getMessageBytes, verifySignature } from '../../../src/lib/security/TransactionSigner.js';
+
+// DER prefix of an ed25519 PKCS#8 private key; the 32-byte seed follows it
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+function signWith(keypair: Keypair, message: Buffer): Buffer {
+  const key = createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, Buffer.from(keypair.secretKey.slice(0, 32))]),
+    format: 'der',
+    type: 'pkcs8',
+  });
+  return sign(null, message, key);
+}
+
+function buildTransaction(feePayer: PublicKey): Transaction {
+  const transaction = new Transaction().add(
+    SystemProgram.transfer({ fromPubkey: feePayer, toPubkey: Keypair.generate().publicKey, lamports: 1000 })
+  );
+  transaction.recentBlockhash = Keypair.generate().publicKey.toBase58();
+  transaction.feePayer = feePayer;
+  return transaction;
+}
+
+function ledgerWith(deviceKey: Keypair, signingKey: Keypair = deviceKey, expectedPublicKey = deviceKey.publicKey): HardwareSecurityModule {
+  const app: LedgerSolanaApp = {
+    getAddress: async () => ({ address: deviceKey.publicKey.toBuffer() }),
+    signTransaction: async (_path, message) => ({ signature: signWith(signingKey, message) }),
+  };
+  return new HardwareSecurityModule({
+    expectedPublicKey,
+    transportFactory: async () => ({ close: async () => {} }),
+    appFactory: () => app,
+  });
+}
+
+describe('TransactionSigner', () => {
+  const keypair = Keypair.generate();
+
+  it('should sign with a local keypair', async () => {
+    const signer = new KeypairSigner(keypair);
+    const transaction = await signer.signTransaction(buildTransaction(signer.getPublicKey()));
+
+    expect(transaction.verifySignatures()).toBe(true);
+    expect(verifySignature(getMessageBytes(transaction), transaction.signature!, keypair.publicKey)).toBe(true);
+  });
+
+  it('should attach a verified Ledger signature after connecting once', async () => {
+    const signer = ledgerWith(keypair);
+    await expect(signer.signTransaction(buildTransaction(keypair.publicKey))).rejects.toThrow(/not connected/);
+
+    await signer.connect();
+    const transaction = await signer.signTransaction(buildTransaction(keypair.publicKey));
+    expect(transaction.verifySignatures()).toBe(true);
+  });
+
+  it('should reject a Ledger reporting a different key', async () => {
+    const signer = ledgerWith(keypair, keypair, Keypair.generate().publicKey);
+    await expect(signer.connect()).rejects.toThrow(/does not match/);
+  });
+
+  it('should reject a signature from the wrong key', async () => {
+    const signer = ledgerWith(keypair, Keypair.generate());
+    await signer.connect();
+    await expect(signer.signTransaction(buildTransaction(keypair.publicKey))).rejects.toThrow(/does not verify/);
+  });
+
+  it('should sign through a remote signing service', async () => {
+    const requests: string[] = [];
+    const server = createServer((req, res) => {
+      requests.push(`${req.method} ${req.url} ${req.headers.authorization}`);
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+        if (req.url === '/public-key') {
+          res.end(JSON.stringify({ publicKey: keypair.publicKey.toBase58() }));
+        } else {
+          const { message } = JSON.parse(body) as { message: string };
+          res.end(JSON.stringify({ signature: signWith(keypair, Buffer.from(message, 'base64')).toString('base64') }));
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const signer = new RemoteSigner({
+        url: `http://127.0.0.1:${port}/`,
+        token: 'secret-token',
+        expectedPublicKey: keypair.publicKey,
+        timeoutMs: 1000,
+      });
+      await signer.connect();
+      const transaction = await signer.signTransaction(buildTransaction(keypair.publicKey));
+
+      expect(transaction.verifySignatures()).toBe(true);
+      expect(requests).toEqual(['GET /public-key Bearer secret-token', 'POST /sign Bearer secret-token']);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
+
@@ -0,0 +1,30 @@
+// __tests__/monitoring/MetricsCollector.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import Redis from 'ioredis';
+import { MetricsCollector } from '../../src/monitoring/MetricsCollector.js';
+
+describe('MetricsCollector', () => {
+  it('should aggregate trades and simulations into a snapshot', async () => {
+    const redis = { hincrby: vi.fn().mockResolvedValue(1) } as unknown as Redis;
+    const collector = new MetricsCollector(redis);
+
+    await collector.recordTrade({ success: true, transactionId: 'a', executionTime: 100, slippageAchieved: 0.01, tipPaid: 10_000 });
+    await collector.recordTrade({ success: true, transactionId: 'b', executionTime: 300, slippageAchieved: 0.01, tipPaid: 15_000, fillMismatch: true });
+    await collector.recordTrade({ success: false, transactionId: 'c', executionTime: 200, slippageAchieved: 0.01 });
+    await collector.recordSimulation({ success: true, latencyMs: 40, unitsConsumed: 41_000 });
+    await collector.recordSimulation({ success: false, latencyMs: 20, reason: 'slippage' });
+
+    const snapshot = await collector.getMetricsSnapshot();
+    expect(snapshot.avgLatencyMs).toBe(200);
+    expect(snapshot.p99LatencyMs).toBe(300);
+    expect(snapshot.successRate).toBeCloseTo(2 / 3);
+    expect(snapshot.failureCount).toBe(1);
+    expect(snapshot.simulationCount).toBe(2);
+    expect(snapshot.simulationFailureCount).toBe(1);
+    expect(snapshot.avgSimulationLatencyMs).toBe(30);
+    expect(snapshot.tipsPaidLamports).toBe(25_000);
+    expect(snapshot.fillMismatchCount).toBe(1);
+    expect(redis.hincrby).toHaveBeenCalledWith('metrics:simulations', 'slippage', 1);
+    expect(redis.hincrby).toHaveBeenCalledWith('metrics:fills', 'mismatch', 1);
+  });
+});
@@ -0,0 +1,42 @@
+// __tests__/orchestrator/FairOrderQueue.test.ts
+import { describe, it, expect } from 'vitest';
+import { FairOrderQueue } from '../../src/orchestrator/FairOrderQueue.js';
+
+describe('FairOrderQueue', () => {
+  it('should serve tokens in turn instead of draining one queue first', async () => {
+    const queue = new FairOrderQueue(1);
+    const order: string[] = [];
+    const task = (label: string) => async () => {
+      order.push(label);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      return label;
+    };
+
+    const results = await Promise.all([
+      queue.run('A', task('A1')),
+      queue.run('A', task('A2')),
+      queue.run('A', task('A3')),
+      queue.run('B', task('B1')),
+      queue.run('C', task('C1')),
+    ]);
+
+    expect(results).toEqual(['A1', 'A2', 'A3', 'B1', 'C1']);
+    expect(order).toEqual(['A1', 'B1', 'C1', 'A2', 'A3']);
+    expect(queue.pending()).toBe(0);
+  });
+
+  it('should cap concurrency and propagate task errors', async () => {
+    const queue = new FairOrderQueue(2);
+    let running = 0;
+    let peak = 0;
+    const task = async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    };
+
+    await Promise.all(['A', 'B', 'C', 'D'].map(token => queue.run(token, task)));
+    expect(peak).toBe(2);
+    await expect(queue.run('A', async () => { throw new Error('router down'); })).rejects.toThrow('router down');
+  });
+});
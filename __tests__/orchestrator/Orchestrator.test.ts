@@ -36,11 +36,10 @@ describe('Orchestrator', () => {
   });
 
   it('should execute trade cycle and update metrics', async () => {
-    vi.spyOn(orchestrator['orderRouter'], 'executeBuyOrder').mockResolvedValue({
+    vi.spyOn(orchestrator['orderRouter'], 'executeOrder').mockResolvedValue({
       success: true,
       transactionId: 'mockTxId',
       executionTime: 100,
-      slippageAchieved: 0.05,
     });
     await orchestrator.start();
     await new Promise(resolve => setTimeout(resolve, 100)); // Allow one cycle
@@ -0,0 +1,91 @@
+// __tests__/state/BondingCurveStream.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { AccountInfo, Connection, Context } from '@solana/web3.js';
+import { BondingCurveStream } from '../../src/state/BondingCurveStream.js';
+import { MarketStateManager } from '../../src/state/MarketStateManager.js';
+import { BONDING_CURVE_DISCRIMINATOR, PUMP_FUN_PROGRAM_ID } from '../../src/lib/pumpfun/BondingCurveAccount.js';
+
+const TOKEN = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+function curveAccount(virtualSolReserves: bigint): AccountInfo<Buffer> {
+  const data = Buffer.alloc(49);
+  BONDING_CURVE_DISCRIMINATOR.copy(data, 0);
+  data.writeBigUInt64LE(1_073_000_000_000_000n, 8);
+  data.writeBigUInt64LE(virtualSolReserves, 16);
+  data.writeBigUInt64LE(793_100_000_000_000n, 24);
+  data.writeBigUInt64LE(virtualSolReserves - 30_000_000_000n, 32);
+  data.writeBigUInt64LE(1_000_000_000_000_000n, 40);
+  return { data, owner: PUMP_FUN_PROGRAM_ID, lamports: 1, executable: false };
+}
+
+function createHarness(initialReserves: bigint, staleAfterMs = 1000) {
+  let listener: ((info: AccountInfo<Buffer>, context: Context) => void) | undefined;
+  const connection = {
+    onAccountChange: vi.fn((_address, callback) => { listener = callback; return 1; }),
+    removeAccountChangeListener: vi.fn().mockResolvedValue(undefined),
+    getAccountInfoAndContext: vi.fn().mockResolvedValue({ context: { slot: 100 }, value: curveAccount(initialReserves) }),
+  };
+  const marketStateManager = { updateCurveState: vi.fn().mockResolvedValue(undefined) };
+  const stream = new BondingCurveStream(
+    connection as unknown as Connection,
+    marketStateManager as unknown as MarketStateManager,
+    { commitment: 'confirmed', staleAfterMs }
+  );
+  return { stream, connection, marketStateManager, push: (info: AccountInfo<Buffer>, slot: number) => listener?.(info, { slot }) };
+}
+
+describe('BondingCurveStream', () => {
+  it('should seed the cache from RPC and apply pushed updates', async () => {
+    const { stream, marketStateManager, push } = createHarness(30_000_000_000n);
+    await stream.watch(TOKEN);
+    expect(stream.getLatest(TOKEN)?.slot).toBe(100);
+
+    push(curveAccount(31_000_000_000n), 105);
+    await vi.waitFor(() => expect(stream.getLatest(TOKEN)?.slot).toBe(105));
+    expect(stream.getLatest(TOKEN)?.virtualSolReserves).toBe(31_000_000_000n);
+    expect(marketStateManager.updateCurveState).toHaveBeenCalledTimes(2);
+    await stream.stop();
+  });
+
+  it('should read through the RPC connection and subscribe through the WebSocket one', async () => {
+    const rpc = { getAccountInfoAndContext: vi.fn().mockResolvedValue({ context: { slot: 100 }, value: curveAccount(30_000_000_000n) }) };
+    const ws = {
+      onAccountChange: vi.fn().mockReturnValue(1),
+      removeAccountChangeListener: vi.fn().mockResolvedValue(undefined),
+    };
+    const stream = new BondingCurveStream(
+      rpc as unknown as Connection,
+      { updateCurveState: vi.fn().mockResolvedValue(undefined) } as unknown as MarketStateManager,
+      { commitment: 'confirmed', staleAfterMs: 1000 },
+      ws as unknown as Connection
+    );
+
+    await stream.watch(TOKEN);
+    expect(rpc.getAccountInfoAndContext).toHaveBeenCalledTimes(1);
+    expect(ws.onAccountChange).toHaveBeenCalledTimes(1);
+    await stream.unwatch(TOKEN);
+    expect(ws.removeAccountChangeListener).toHaveBeenCalledWith(1);
+    await stream.stop();
+  });
+
+  it('should ignore out-of-order updates', async () => {
+    const { stream, push } = createHarness(30_000_000_000n);
+    await stream.watch(TOKEN);
+    push(curveAccount(35_000_000_000n), 90);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(stream.getLatest(TOKEN)?.virtualSolReserves).toBe(30_000_000_000n);
+    await stream.stop();
+  });
+
+  it('should resync and resubscribe when the subscription missed an update', async () => {
+    const { stream, connection } = createHarness(30_000_000_000n, 20);
+    await stream.watch(TOKEN);
+
+    connection.getAccountInfoAndContext.mockResolvedValue({ context: { slot: 200 }, value: curveAccount(32_000_000_000n) });
+    await vi.waitFor(() => expect(connection.onAccountChange).toHaveBeenCalledTimes(2));
+
+    expect(stream.getLatest(TOKEN, 1000)?.virtualSolReserves).toBe(32_000_000_000n);
+    expect(connection.removeAccountChangeListener).toHaveBeenCalledWith(1);
+    await stream.stop();
+  });
+});
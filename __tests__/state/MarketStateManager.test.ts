@@ -1,20 +1,20 @@
 // __tests__/state/MarketStateManager.test.ts
 import { describe, it, expect } from 'vitest';
+import Redis from 'ioredis';
 import { MarketStateManager } from '../../src/state/MarketStateManager.js';
-import { Connection } from '@solana/web3.js';
 
 describe('MarketStateManager', () => {
   it('should update and retrieve market state', async () => {
     const mockRedis = new Redis();
-    const mockConnection = new Connection('https://api.mainnet-beta.solana.com');
-    const manager = new MarketStateManager(mockRedis, mockConnection);
-    await manager.updatePosition('TokenAddress123', 10);
+    const manager = new MarketStateManager(mockRedis);
+    await manager.updatePosition('TokenAddress123', 10, 250_000);
     await manager.updateLiquidity('TokenAddress123', 50);
-    await manager.refreshVolatility('TokenAddress123');
+    await manager.updateVolatility('TokenAddress123', 0.04);
     const state = await manager.getMarketState('TokenAddress123');
     expect(state).toBeDefined();
     expect(state?.positionSize).toBe(10);
+    expect(state?.tokenPosition).toBe(250_000);
     expect(state?.liquidity).toBe(50);
-    expect(state?.volatility).toBeGreaterThan(0); // Depends on mock implementation
+    expect(state?.volatility).toBe(0.04);
   });
 });
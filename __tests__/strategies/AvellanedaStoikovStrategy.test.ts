@@ -0,0 +1,52 @@
+// __tests__/strategies/AvellanedaStoikovStrategy.test.ts
+import { describe, it, expect } from 'vitest';
+import { TradingConfig } from '../../src/config/BotConfig.js';
+import { AvellanedaStoikovStrategy } from '../../src/strategies/AvellanedaStoikovStrategy.js';
+
+const config = {
+  baseAmountSol: 0.1,
+  riskAversion: 0.1,
+  orderArrivalIntensity: 200,
+  quoteHorizon: 1,
+  inventorySkew: 0.5,
+  maxInventoryLots: 3,
+} as TradingConfig;
+
+describe('AvellanedaStoikovStrategy', () => {
+  it('should shift the reservation price and sizes against inventory', () => {
+    const strategy = new AvellanedaStoikovStrategy(config);
+
+    const flat = strategy.quote(1.0, 0, 0.3);
+    expect(flat.reservationPrice).toBe(1.0);
+    expect(flat.bidSizeSol).toBeCloseTo(flat.askSizeSol);
+    // γσ²τ + (2/γ)ln(1 + γ/k) = 0.009 + 20·ln(1.0005)
+    expect(flat.halfSpread * 2).toBeCloseTo(0.009 + 20 * Math.log(1.0005), 6);
+
+    const long = strategy.quote(1.0, 0.2, 0.3);
+    expect(long.reservationPrice).toBeCloseTo(1.0 - 2 * 0.1 * 0.09);
+    expect(long.askSizeSol).toBeGreaterThan(long.bidSizeSol);
+    expect(long.ask).toBeLessThan(flat.ask);
+  });
+
+  it('should sell into a flat market once inventory pushes the ask below spot', () => {
+    const strategy = new AvellanedaStoikovStrategy(config);
+    const marketState = { volatility: 0.3 } as any;
+
+    expect(strategy.evaluate({ tokenAddress: 'T', marketState, positionSol: 0, spotPrice: 1.0, config }).orders).toEqual([]);
+
+    // Two lots long: the reservation price drops 2·γσ²τ = 1.8%, below spot by more than the half-spread
+    const decision = strategy.evaluate({ tokenAddress: 'T', marketState, positionSol: 0.2, spotPrice: 1.0, config });
+    expect(decision.orders).toHaveLength(1);
+    expect(decision.orders[0]).toMatchObject({ side: 'sell', reason: 'spot at or above ask' });
+    // e^(η·q) = e^1 lots, capped at the position held
+    expect(decision.orders[0]!.sizeSol).toBe(0.2);
+  });
+
+  it('should stop buying at the inventory cap', () => {
+    const strategy = new AvellanedaStoikovStrategy(config);
+    strategy.evaluate({ tokenAddress: 'T', marketState: null, positionSol: 0.35, spotPrice: 1.0, config });
+
+    const decision = strategy.evaluate({ tokenAddress: 'T', marketState: null, positionSol: 0.35, spotPrice: 0.9, config });
+    expect(decision).toMatchObject({ orders: [], reason: 'spot below bid at inventory cap' });
+  });
+});
@@ -0,0 +1,60 @@
+// __tests__/strategies/DefaultStrategy.test.ts
+import { describe, it, expect } from 'vitest';
+import { TradingConfig } from '../../src/config/BotConfig.js';
+import { DefaultStrategy } from '../../src/strategies/DefaultStrategy.js';
+
+const TOKEN = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+const config: TradingConfig = {
+  targetToken: TOKEN,
+  tokens: [],
+  maxPortfolioExposureSol: 5,
+  maxConcurrentOrders: 2,
+  baseAmountSol: 0.1,
+  maxSlippage: 0.005,
+  spreadPercentage: 0.01,
+  rebalanceThreshold: 0.02,
+  maxPositionSize: 0.8,
+  riskAversion: 0.1,
+  orderArrivalIntensity: 200,
+  quoteHorizon: 1,
+  inventorySkew: 0.5,
+  maxInventoryLots: 10,
+  rebalanceAlgorithm: 'twap',
+  executionDuration: 60000,
+  executionChildInterval: 5000,
+  participationRate: 0.1,
+  maxChildImpact: 0.01,
+  minChildSol: 0.01,
+  maxChildFailures: 3,
+  volatilityBarInterval: 60000,
+  volatilityEwmaLambda: 0.94,
+  volatilityWindow: 30,
+  volatilityTarget: 0.02,
+  maxSpreadMultiplier: 3,
+  strategy: 'default',
+  tokenStrategies: {},
+};
+
+function context(positionSol: number, spotPrice: number) {
+  return { tokenAddress: TOKEN, marketState: null, positionSol, spotPrice, config };
+}
+
+describe('DefaultStrategy', () => {
+  it('should rebalance half the position once it passes the threshold', () => {
+    const strategy = new DefaultStrategy(config);
+
+    expect(strategy.evaluate(context(0.5, 1.0)).orders).toEqual([{ side: 'sell', sizeSol: 0.25, reason: 'rebalance', algorithm: 'twap' }]);
+    expect(strategy.evaluate(context(-0.1, 1.0)).orders).toEqual([{ side: 'buy', sizeSol: 0.05, reason: 'rebalance', algorithm: 'twap' }]);
+  });
+
+  it('should quote around the reference price inside the threshold', () => {
+    const strategy = new DefaultStrategy(config);
+
+    const decision = strategy.evaluate(context(0, 1.0));
+    expect(decision.orders).toEqual([{ side: 'buy', sizeSol: 0.1, reason: 'building inventory' }]);
+    expect(decision.bid).toBeCloseTo(0.995);
+    expect(decision.ask).toBeCloseTo(1.005);
+    expect(strategy.evaluate(context(0.01, 1.001)).orders).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+// __tests__/strategies/SpreadQuoter.test.ts
+import { describe, it, expect } from 'vitest';
+import { SpreadQuoter } from '../../src/strategies/SpreadQuoter.js';
+
+const options = { spread: 0.02, baseSizeSol: 0.1, referenceAlpha: 0.5, maxSizeMultiplier: 2 };
+
+describe('SpreadQuoter', () => {
+  it('should build inventory when flat and hold inside the spread', () => {
+    const quoter = new SpreadQuoter(options);
+
+    const first = quoter.decide(1.0, 0);
+    expect(first).toMatchObject({ side: 'buy', sizeSol: 0.1, referencePrice: 1.0, reason: 'building inventory' });
+    expect(first.bid).toBeCloseTo(0.99);
+    expect(first.ask).toBeCloseTo(1.01);
+
+    expect(quoter.decide(1.005, 0.1)).toMatchObject({ side: 'hold', reason: 'spot inside spread' });
+  });
+
+  it('should buy through the bid and sell through the ask, sizing by distance', () => {
+    const quoter = new SpreadQuoter(options);
+    quoter.decide(1.0, 0.1);
+
+    const buy = quoter.decide(0.98, 0.1);
+    expect(buy.side).toBe('buy');
+    expect(buy.sizeSol).toBeCloseTo(0.2);
+
+    // Reference is now 0.99; the ask sits near 0.9999
+    const sell = quoter.decide(1.05, 0.15);
+    expect(sell.side).toBe('sell');
+    expect(sell.sizeSol).toBe(0.15);
+  });
+
+  it('should widen the spread by the volatility multiplier', () => {
+    const quoter = new SpreadQuoter(options);
+    const wide = quoter.decide(1.0, 0.1, 2);
+    expect(wide.bid).toBeCloseTo(0.98);
+    expect(wide.ask).toBeCloseTo(1.02);
+    // Through the calm bid, inside the widened one
+    expect(quoter.decide(0.985, 0.1, 2)).toMatchObject({ side: 'hold', reason: 'spot inside spread' });
+  });
+
+  it('should not sell above the ask without inventory', () => {
+    const quoter = new SpreadQuoter(options);
+    quoter.decide(1.0, 0);
+    expect(quoter.decide(1.2, 0)).toMatchObject({ side: 'hold', reason: 'spot above ask with no inventory' });
+  });
+});
@@ -0,0 +1,18 @@
+// __tests__/strategies/StrategyRegistry.test.ts
+import { describe, it, expect } from 'vitest';
+import { TradingConfig } from '../../src/config/BotConfig.js';
+import { createDefaultRegistry } from '../../src/strategies/StrategyRegistry.js';
+
+const config = { spreadPercentage: 0.01, baseAmountSol: 0.1 } as TradingConfig;
+
+describe('StrategyRegistry', () => {
+  it('should create a fresh instance per call and reject unknown or duplicate names', () => {
+    const registry = createDefaultRegistry();
+
+    const first = registry.create('default', config);
+    expect(first.name).toBe('default');
+    expect(registry.create('default', config)).not.toBe(first);
+    expect(() => registry.create('momentum', config)).toThrow(/Unknown strategy "momentum", registered: default, avellaneda-stoikov/);
+    expect(() => registry.register('default', () => first)).toThrow(/already registered/);
+  });
+});
@@ -1,17 +1,31 @@
 import { Connection } from "@solana/web3.js";
 import { Redis } from "ioredis";
 import winston from "winston";
+import { RpcPool } from "./lib/rpc/RpcPool.js";
 import { TradingConfig, TradingEngineConfig } from "./interfaces/TradingConfig.js";
 
 export class ConfigManager {
   private connection: Connection;
+  private rpcPool: RpcPool;
   private redis: Redis;
   private logger: winston.Logger;
 
   constructor() {
-    // Initialize connection
-    const rpcEndpoint = process.env.HELIUS_RPC_URL || "https://api.mainnet-beta.solana.com";
-    this.connection = new Connection(rpcEndpoint, "confirmed");
+    // Initialize connection; no public fallback, an unset endpoint is a configuration error
+    const rpcEndpoints = [
+      process.env.HELIUS_RPC_URL,
+      process.env.SOLANA_RPC_URL,
+      ...(process.env.SOLANA_RPC_URLS || "").split(",").map(url => url.trim()),
+    ].filter((url): url is string => !!url);
+    if (rpcEndpoints.length === 0) {
+      throw new Error("No RPC endpoint configured: set HELIUS_RPC_URL, SOLANA_RPC_URL or SOLANA_RPC_URLS");
+    }
+    this.rpcPool = new RpcPool(rpcEndpoints, {
+      commitment: "confirmed",
+      healthCheckIntervalMs: parseInt(process.env.SOLANA_RPC_HEALTH_INTERVAL || "10000"),
+      maxSlotLag: parseInt(process.env.SOLANA_RPC_MAX_SLOT_LAG || "20"),
+    });
+    this.connection = this.rpcPool.connection;
 
     // Initialize Redis
     this.redis = new Redis({
@@ -68,11 +82,13 @@ export class ConfigManager {
   }
 
   async validateConnection(): Promise<void> {
+    await this.rpcPool.start();
     const version = await this.connection.getVersion();
     this.logger.info("Solana connection validated", { version });
   }
 
   async cleanup(): Promise<void> {
+    this.rpcPool.stop();
     await this.redis.quit();
     this.logger.info("ConfigManager cleaned up");
   }
@@ -1,143 +1,275 @@
 // /src/adapters/PumpFunAdapter.ts
 // Purpose: Adapts the Pump.fun protocol for creating buy and sell transactions on Solana
 
-import { Connection, Transaction, PublicKey, TransactionInstruction } from '@solana/web3.js';
-import { PumpFunClient, BuyInstruction, SellInstruction } from '@pump-fun/pump-sdk'; // Simulated SDK methods
+import { AccountInfo, Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { BondingCurve, Global, PumpSdk } from '@pump-fun/pump-sdk';
+import BN from 'bn.js';
 import Redis from 'ioredis';
 import { ConfigManager } from '../config/ConfigManager.js';
+import {
+  getSpotPrice,
+  maxInWithSlippage,
+  minOutWithSlippage,
+  quoteBuyExactIn,
+  quoteSellExactIn,
+  solToLamports,
+  tokensToBaseUnits,
+} from '../lib/pumpfun/BondingCurveMath.js';
+import {
+  BondingCurveAccount,
+  PUMP_FUN_PROGRAM_ID,
+  deriveBondingCurveAddress,
+  parseBondingCurveAccountInfo,
+} from '../lib/pumpfun/BondingCurveAccount.js';
+import { BondingCurveStream } from '../state/BondingCurveStream.js';
+import { ExchangeAdapter, OrderSide, SlippageQuote, VenueHealth, VenueQuote } from '../interfaces/ExchangeAdapter.js';
 
-// Pump.fun program ID
-const PUMP_FUN_PROGRAM_ID = new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P');
+/**
+ * Bonding curve state with reserves and derived spot price (SOL per token)
+ */
+export interface BondingCurveState extends BondingCurveAccount {
+  price: number;
+}
+
+// How long the program's global account (fee recipients) is reused between orders
+const GLOBAL_CACHE_TTL_MS = 60_000;
+
+/**
+ * Raised when a token's bonding curve has completed and trades must move to the AMM
+ */
+export class BondingCurveCompleteError extends Error {
+  constructor(public readonly tokenAddress: string) {
+    super(`Bonding curve for ${tokenAddress} is complete; token has graduated`);
+    this.name = 'BondingCurveCompleteError';
+  }
+}
 
 /**
  * PumpFunAdapter class to interact with the Pump.fun protocol
  */
-export class PumpFunAdapter {
+export class PumpFunAdapter implements ExchangeAdapter {
+  readonly venue = 'pumpfun';
   private readonly redis: Redis;
   private readonly logger: Console;
   private readonly connection: Connection;
-  private pumpClient: PumpFunClient;
-  private walletPublicKey: PublicKey; // Simulated wallet for signing
+  // Builds buy/sell instructions with explicit amounts and bounds, plus the token account and curve extension they need
+  private readonly pumpSdk: PumpSdk;
+  private globalCache?: { global: Global; fetchedAt: number };
+  private readonly walletPublicKey: PublicKey;
+  private curveStream?: BondingCurveStream;
 
-  constructor(redis: Redis, logger: Console, connection: Connection) {
+  constructor(redis: Redis, logger: Console, connection: Connection, walletPublicKey: PublicKey) {
     if (!redis) throw new Error('Redis client is required');
     if (!logger) throw new Error('Logger is required');
     if (!connection) throw new Error('Solana connection is required');
+    if (!walletPublicKey) throw new Error('Wallet public key is required');
     this.redis = redis;
     this.logger = logger;
     this.connection = connection;
+    this.walletPublicKey = walletPublicKey;
 
-    // Initialize PumpFun client
-    this.pumpClient = new PumpFunClient(connection, PUMP_FUN_PROGRAM_ID);
-    this.walletPublicKey = new PublicKey('YourWalletPublicKeyHere'); // Replace with real wallet key from .env
+    this.pumpSdk = new PumpSdk(connection, PUMP_FUN_PROGRAM_ID);
     this.logger.info('📡 PumpFunAdapter initialized');
   }
 
   /**
-   * Create a buy transaction for a token
+   * Serve curve state from a live stream instead of polling RPC on every quote
+   * @param stream Bonding-curve stream watching the traded tokens
+   */
+  attachCurveStream(stream: BondingCurveStream): void {
+    this.curveStream = stream;
+  }
+
+  /**
+   * Create buy instructions for a token
    * @param tokenAddress Target token public key
    * @param amountSol Amount in SOL to buy
    * @param slippage Maximum acceptable slippage
-   * @returns Prepared Transaction
+   * @returns Swap instructions; compute budget and signing are added by the caller
    */
-  async createBuyTransaction(tokenAddress: string, amountSol: number, slippage: number): Promise<Transaction> {
+  async createBuyInstructions(tokenAddress: string, amountSol: number, slippage: number): Promise<TransactionInstruction[]> {
     try {
       const token = new PublicKey(tokenAddress);
       if (amountSol <= 0) throw new Error('Amount must be positive');
       if (slippage < 0 || slippage > 0.1) throw new Error('Slippage must be 0-10%');
 
-      // Fetch bonding curve data
-      const bondingCurveData = await this.getBondingCurveState(tokenAddress);
-      const expectedPrice = bondingCurveData.price;
-      const maxPrice = expectedPrice * (1 + slippage);
-
-      // Calculate expected token amount (simplified, replace with real SDK logic)
-      const expectedTokens = amountSol / maxPrice;
-
-      // Create buy instruction using Pump.fun SDK
-      const buyInstruction: BuyInstruction = await this.pumpClient.createBuyInstruction({
-        mint: token,
-        amountSol,
-        slippage,
-        wallet: this.walletPublicKey,
-      });
-
-      // Construct transaction
-      const transaction = new Transaction();
-      transaction.add(new TransactionInstruction({
-        keys: buyInstruction.keys,
-        programId: PUMP_FUN_PROGRAM_ID,
-        data: buyInstruction.data,
-      }));
-
-      this.logger.debug(\`🛒 Created buy transaction for \${tokenAddress} with \${amountSol} SOL, slippage \${slippage}\`);
-      return transaction;
+      // Quote against the live curve; the program enforces maxSolCost on-chain
+      const quote = await this.quoteBuy(tokenAddress, amountSol, slippage);
+
+      // The bounds already include slippage, so the SDK adds none
+      const { accountInfo, curve } = await this.loadCurveAccount(token);
+      const instructions = await this.pumpSdk.buyInstructions(
+        await this.loadGlobal(),
+        accountInfo,
+        curve,
+        token,
+        this.walletPublicKey,
+        new BN(quote.amountOut.toString()),
+        new BN(quote.maxAmountIn.toString()),
+        0,
+        curve.creator
+      );
+
+      this.logger.debug(`🛒 Created buy instructions for ${tokenAddress}: ${amountSol} SOL -> ${quote.amountOut} tokens (max cost ${quote.maxAmountIn}, impact ${(quote.priceImpact * 100).toFixed(2)}%)`);
+      return instructions;
     } catch (error) {
-      this.logger.error(\`❌ Error creating buy transaction: \${(error as Error).message}\`);
+      this.logger.error(`❌ Error creating buy instructions: ${(error as Error).message}`);
       throw error;
     }
   }
 
   /**
-   * Create a sell transaction for a token
+   * Create sell instructions for a token
    * @param tokenAddress Target token public key
    * @param amountTokens Amount of tokens to sell
    * @param slippage Maximum acceptable slippage
-   * @returns Prepared Transaction
+   * @returns Swap instructions; compute budget and signing are added by the caller
    */
-  async createSellTransaction(tokenAddress: string, amountTokens: number, slippage: number): Promise<Transaction> {
+  async createSellInstructions(tokenAddress: string, amountTokens: number, slippage: number): Promise<TransactionInstruction[]> {
     try {
       const token = new PublicKey(tokenAddress);
       if (amountTokens <= 0) throw new Error('Amount must be positive');
       if (slippage < 0 || slippage > 0.1) throw new Error('Slippage must be 0-10%');
 
-      // Fetch bonding curve data
-      const bondingCurveData = await this.getBondingCurveState(tokenAddress);
-      const expectedPrice = bondingCurveData.price;
-      const minPrice = expectedPrice * (1 - slippage);
-
-      // Calculate expected SOL amount (simplified, replace with real SDK logic)
-      const expectedSol = amountTokens * minPrice;
-
-      // Create sell instruction using Pump.fun SDK
-      const sellInstruction: SellInstruction = await this.pumpClient.createSellInstruction({
-        mint: token,
-        amountTokens,
-        slippage,
-        wallet: this.walletPublicKey,
-      });
-
-      // Construct transaction
-      const transaction = new Transaction();
-      transaction.add(new TransactionInstruction({
-        keys: sellInstruction.keys,
-        programId: PUMP_FUN_PROGRAM_ID,
-        data: sellInstruction.data,
-      }));
-
-      this.logger.debug(\`🛍️ Created sell transaction for \${tokenAddress} with \${amountTokens} tokens, slippage \${slippage}\`);
-      return transaction;
+      // Quote against the live curve; the program enforces minSolOutput on-chain
+      const quote = await this.quoteSell(tokenAddress, amountTokens, slippage);
+
+      const { accountInfo } = await this.loadCurveAccount(token);
+      const instructions = await this.pumpSdk.sellInstructions(
+        await this.loadGlobal(),
+        accountInfo,
+        token,
+        this.walletPublicKey,
+        new BN(quote.amountIn.toString()),
+        new BN(quote.minAmountOut.toString()),
+        0
+      );
+
+      this.logger.debug(`🛍️ Created sell instructions for ${tokenAddress}: ${amountTokens} tokens -> ${quote.amountOut} lamports (min ${quote.minAmountOut}, impact ${(quote.priceImpact * 100).toFixed(2)}%)`);
+      return instructions;
     } catch (error) {
-      this.logger.error(\`❌ Error creating sell transaction: \${(error as Error).message}\`);
+      this.logger.error(`❌ Error creating sell instructions: ${(error as Error).message}`);
       throw error;
     }
   }
 
   /**
-   * Get bonding curve state for a token
+   * Quote a buy (SOL in) or sell (tokens in) on the bonding curve
+   * @param side Order side
+   * @param tokenAddress Target token public key
+   * @param amount SOL for buys, tokens for sells
+   * @param slippage Maximum acceptable slippage
+   */
+  async quote(side: OrderSide, tokenAddress: string, amount: number, slippage: number): Promise<VenueQuote> {
+    const quote = side === 'buy'
+      ? await this.quoteBuy(tokenAddress, amount, slippage)
+      : await this.quoteSell(tokenAddress, amount, slippage);
+    return { ...quote, venue: this.venue, tokenAddress };
+  }
+
+  /**
+   * Report whether the curve can trade the token; a completed curve is unavailable
+   * @param tokenAddress Target token public key
+   */
+  async getVenueHealth(tokenAddress: string): Promise<VenueHealth> {
+    const checkedAt = Date.now();
+    try {
+      const state = await this.getBondingCurveState(tokenAddress);
+      if (state.complete) return { venue: this.venue, available: false, reason: 'Bonding curve complete', checkedAt };
+      return { venue: this.venue, available: true, checkedAt };
+    } catch (error) {
+      return { venue: this.venue, available: false, reason: (error as Error).message, checkedAt };
+    }
+  }
+
+  /**
+   * Quote a buy of an exact SOL amount against the current curve
+   * @param tokenAddress Target token public key
+   * @param amountSol Amount in SOL to spend, fee included
+   * @param slippage Maximum acceptable slippage
+   * @returns Quote with min tokens out and max SOL cost
+   * @throws BondingCurveCompleteError if the token has graduated
+   */
+  async quoteBuy(tokenAddress: string, amountSol: number, slippage: number): Promise<SlippageQuote> {
+    const state = await this.getBondingCurveState(tokenAddress);
+    if (state.complete) throw new BondingCurveCompleteError(tokenAddress);
+    const quote = quoteBuyExactIn(state, solToLamports(amountSol));
+    return {
+      ...quote,
+      minAmountOut: minOutWithSlippage(quote.amountOut, slippage),
+      maxAmountIn: maxInWithSlippage(quote.amountIn, slippage),
+    };
+  }
+
+  /**
+   * Quote a sell of an exact token amount against the current curve
    * @param tokenAddress Target token public key
-   * @returns Object with bonding curve state
+   * @param amountTokens Amount of tokens to sell
+   * @param slippage Maximum acceptable slippage
+   * @returns Quote with min SOL out
+   * @throws BondingCurveCompleteError if the token has graduated
    */
-  async getBondingCurveState(tokenAddress: string): Promise<{ price: number }> {
+  async quoteSell(tokenAddress: string, amountTokens: number, slippage: number): Promise<SlippageQuote> {
+    const state = await this.getBondingCurveState(tokenAddress);
+    if (state.complete) throw new BondingCurveCompleteError(tokenAddress);
+    const quote = quoteSellExactIn(state, tokensToBaseUnits(amountTokens));
+    return {
+      ...quote,
+      minAmountOut: minOutWithSlippage(quote.amountOut, slippage),
+      maxAmountIn: quote.amountIn,
+    };
+  }
+
+  /**
+   * Raw curve account for instruction building; the SDK extends legacy accounts and pays the creator vault from it
+   */
+  private async loadCurveAccount(mint: PublicKey): Promise<{ accountInfo: AccountInfo<Buffer>; curve: BondingCurve }> {
+    const accountInfo = await this.connection.getAccountInfo(deriveBondingCurveAddress(mint));
+    if (!accountInfo) throw new Error(`Bonding curve not found for ${mint.toBase58()}`);
+    const account = parseBondingCurveAccountInfo(accountInfo);
+    const curve: BondingCurve = {
+      virtualTokenReserves: new BN(account.virtualTokenReserves.toString()),
+      virtualSolReserves: new BN(account.virtualSolReserves.toString()),
+      realTokenReserves: new BN(account.realTokenReserves.toString()),
+      realSolReserves: new BN(account.realSolReserves.toString()),
+      tokenTotalSupply: new BN(account.tokenTotalSupply.toString()),
+      complete: account.complete,
+      creator: account.creator ?? PublicKey.default,
+    };
+    return { accountInfo, curve };
+  }
+
+  /**
+   * Program global account, refreshed after GLOBAL_CACHE_TTL_MS
+   */
+  private async loadGlobal(): Promise<Global> {
+    if (this.globalCache && Date.now() - this.globalCache.fetchedAt < GLOBAL_CACHE_TTL_MS) return this.globalCache.global;
+    const global = await this.pumpSdk.fetchGlobal();
+    this.globalCache = { global, fetchedAt: Date.now() };
+    return global;
+  }
+
+  /**
+   * Get bonding curve state for a token, preferring the live stream cache
+   * @param tokenAddress Target token public key
+   * @returns Curve reserves and spot price
+   */
+  async getBondingCurveState(tokenAddress: string): Promise<BondingCurveState> {
+    const snapshot = this.curveStream?.getLatest(tokenAddress);
+    if (snapshot) return snapshot;
+
     try {
       const token = new PublicKey(tokenAddress);
-      // Fetch bonding curve account data (simplified, replace with real SDK logic)
-      const bondingCurveAccount = await this.pumpClient.getBondingCurveAccount(token);
-      const price = bondingCurveAccount.price || Math.random() * 100; // Fallback to random for demo
-      this.logger.debug(\`📊 Bonding curve price for \${tokenAddress}: \${price}\`);
-      return { price };
+      const bondingCurveAddress = deriveBondingCurveAddress(token);
+      const accountInfo = await this.connection.getAccountInfo(bondingCurveAddress);
+      if (!accountInfo) throw new Error(`Bonding curve not found for ${tokenAddress}`);
+
+      const account = parseBondingCurveAccountInfo(accountInfo);
+      const price = getSpotPrice(account);
+      this.logger.debug(`📊 Bonding curve price for ${tokenAddress}: ${price}`);
+      return { ...account, price };
     } catch (error) {
-      this.logger.error(\`❌ Error fetching bonding curve state: \${(error as Error).message}\`);
+      this.logger.error(`❌ Error fetching bonding curve state: ${(error as Error).message}`);
       throw error;
     }
   }
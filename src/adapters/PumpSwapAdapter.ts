@@ -0,0 +1,235 @@
+// /src/adapters/PumpSwapAdapter.ts
+// Purpose: Adapts the PumpSwap AMM for trading tokens that graduated off the Pump.fun bonding curve
+
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { PumpAmmInternalSdk } from '@pump-fun/pump-swap-sdk';
+import BN from 'bn.js';
+import Redis from 'ioredis';
+import { ExchangeAdapter, OrderSide, SlippageQuote, VenueHealth, VenueQuote } from '../interfaces/ExchangeAdapter.js';
+import {
+  maxInWithSlippage,
+  minOutWithSlippage,
+  solToLamports,
+  tokensToBaseUnits,
+} from '../lib/pumpfun/BondingCurveMath.js';
+import {
+  PUMP_SWAP_PROGRAM_ID,
+  PoolReserves,
+  PumpSwapPool,
+  decodePoolAccount,
+  decodeTokenAccountAmount,
+  deriveCanonicalPoolAddress,
+  getPoolSpotPrice,
+  quotePoolBuy,
+  quotePoolSell,
+} from '../lib/pumpswap/PumpSwapPool.js';
+
+/**
+ * Pool state with vault reserves and derived spot price (SOL per token)
+ */
+export interface PoolState extends PumpSwapPool, PoolReserves {
+  address: PublicKey;
+  price: number;
+}
+
+/**
+ * PumpSwapAdapter class to trade migrated tokens on the PumpSwap AMM
+ */
+export class PumpSwapAdapter implements ExchangeAdapter {
+  readonly venue = 'pumpswap';
+  private readonly redis: Redis;
+  private readonly logger: Console;
+  private readonly connection: Connection;
+  // Builds swap instructions with explicit amounts and bounds, plus the token and WSOL account setup they need
+  private readonly ammSdk: PumpAmmInternalSdk;
+  private readonly walletPublicKey: PublicKey;
+  private readonly poolCache = new Map<string, PumpSwapPool & { address: PublicKey }>();
+
+  constructor(redis: Redis, logger: Console, connection: Connection, walletPublicKey: PublicKey) {
+    if (!redis) throw new Error('Redis client is required');
+    if (!logger) throw new Error('Logger is required');
+    if (!connection) throw new Error('Solana connection is required');
+    if (!walletPublicKey) throw new Error('Wallet public key is required');
+    this.redis = redis;
+    this.logger = logger;
+    this.connection = connection;
+    this.walletPublicKey = walletPublicKey;
+
+    this.ammSdk = new PumpAmmInternalSdk(connection, PUMP_SWAP_PROGRAM_ID.toBase58());
+    this.logger.info('📡 PumpSwapAdapter initialized');
+  }
+
+  /**
+   * Locate the pool a graduated token migrated to
+   * @param tokenAddress Graduated token public key
+   * @returns Pool address
+   * @throws Error if migration has not created the pool yet
+   */
+  async findPool(tokenAddress: string): Promise<PublicKey> {
+    const pool = await this.loadPool(tokenAddress);
+    return pool.address;
+  }
+
+  /**
+   * Create buy instructions on the migrated pool
+   * @param tokenAddress Target token public key
+   * @param amountSol Amount in SOL to spend
+   * @param slippage Maximum acceptable slippage
+   * @returns Swap instructions; compute budget and signing are added by the caller
+   */
+  async createBuyInstructions(tokenAddress: string, amountSol: number, slippage: number): Promise<TransactionInstruction[]> {
+    try {
+      if (amountSol <= 0) throw new Error('Amount must be positive');
+      if (slippage < 0 || slippage > 0.1) throw new Error('Slippage must be 0-10%');
+
+      const state = await this.getPoolState(tokenAddress);
+      const quote = await this.quoteBuy(tokenAddress, amountSol, slippage);
+
+      const swapState = await this.ammSdk.swapSolanaState(state.address, this.walletPublicKey);
+      const instructions = await this.ammSdk.buyInstructionsInternal(
+        swapState,
+        new BN(quote.amountOut.toString()),
+        new BN(quote.maxAmountIn.toString())
+      );
+
+      this.logger.debug(`🛒 Created AMM buy for ${tokenAddress}: ${amountSol} SOL -> ${quote.amountOut} tokens (max cost ${quote.maxAmountIn})`);
+      return instructions;
+    } catch (error) {
+      this.logger.error(`❌ Error creating AMM buy instructions: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Create sell instructions on the migrated pool
+   * @param tokenAddress Target token public key
+   * @param amountTokens Amount of tokens to sell
+   * @param slippage Maximum acceptable slippage
+   * @returns Swap instructions; compute budget and signing are added by the caller
+   */
+  async createSellInstructions(tokenAddress: string, amountTokens: number, slippage: number): Promise<TransactionInstruction[]> {
+    try {
+      if (amountTokens <= 0) throw new Error('Amount must be positive');
+      if (slippage < 0 || slippage > 0.1) throw new Error('Slippage must be 0-10%');
+
+      const state = await this.getPoolState(tokenAddress);
+      const quote = await this.quoteSell(tokenAddress, amountTokens, slippage);
+
+      const swapState = await this.ammSdk.swapSolanaState(state.address, this.walletPublicKey);
+      const instructions = await this.ammSdk.sellInstructionsInternal(
+        swapState,
+        new BN(quote.amountIn.toString()),
+        new BN(quote.minAmountOut.toString())
+      );
+
+      this.logger.debug(`🛍️ Created AMM sell for ${tokenAddress}: ${amountTokens} tokens -> ${quote.amountOut} lamports (min ${quote.minAmountOut})`);
+      return instructions;
+    } catch (error) {
+      this.logger.error(`❌ Error creating AMM sell instructions: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Quote a buy (SOL in) or sell (tokens in) on the pool
+   * @param side Order side
+   * @param tokenAddress Target token public key
+   * @param amount SOL for buys, tokens for sells
+   * @param slippage Maximum acceptable slippage
+   */
+  async quote(side: OrderSide, tokenAddress: string, amount: number, slippage: number): Promise<VenueQuote> {
+    const quote = side === 'buy'
+      ? await this.quoteBuy(tokenAddress, amount, slippage)
+      : await this.quoteSell(tokenAddress, amount, slippage);
+    return { ...quote, venue: this.venue, tokenAddress };
+  }
+
+  /**
+   * Report whether a funded pool exists for the token
+   * @param tokenAddress Target token public key
+   */
+  async getVenueHealth(tokenAddress: string): Promise<VenueHealth> {
+    const checkedAt = Date.now();
+    try {
+      const state = await this.getPoolState(tokenAddress);
+      if (state.baseReserves === 0n || state.quoteReserves === 0n) {
+        return { venue: this.venue, available: false, reason: 'Pool has no liquidity', checkedAt };
+      }
+      return { venue: this.venue, available: true, checkedAt };
+    } catch (error) {
+      return { venue: this.venue, available: false, reason: (error as Error).message, checkedAt };
+    }
+  }
+
+  /**
+   * Quote a buy of an exact SOL amount against the pool
+   */
+  async quoteBuy(tokenAddress: string, amountSol: number, slippage: number): Promise<SlippageQuote> {
+    const state = await this.getPoolState(tokenAddress);
+    const quote = quotePoolBuy(state, solToLamports(amountSol));
+    return {
+      ...quote,
+      minAmountOut: minOutWithSlippage(quote.amountOut, slippage),
+      maxAmountIn: maxInWithSlippage(quote.amountIn, slippage),
+    };
+  }
+
+  /**
+   * Quote a sell of an exact token amount against the pool
+   */
+  async quoteSell(tokenAddress: string, amountTokens: number, slippage: number): Promise<SlippageQuote> {
+    const state = await this.getPoolState(tokenAddress);
+    const quote = quotePoolSell(state, tokensToBaseUnits(amountTokens));
+    return {
+      ...quote,
+      minAmountOut: minOutWithSlippage(quote.amountOut, slippage),
+      maxAmountIn: quote.amountIn,
+    };
+  }
+
+  /**
+   * Get pool reserves for a graduated token
+   * @param tokenAddress Graduated token public key
+   * @returns Pool accounts, vault reserves and spot price
+   */
+  async getPoolState(tokenAddress: string): Promise<PoolState> {
+    try {
+      const pool = await this.loadPool(tokenAddress);
+      const [baseVault, quoteVault] = await this.connection.getMultipleAccountsInfo([
+        pool.poolBaseTokenAccount,
+        pool.poolQuoteTokenAccount,
+      ]);
+      if (!baseVault || !quoteVault) throw new Error(`Pool vaults not found for ${tokenAddress}`);
+
+      const reserves: PoolReserves = {
+        baseReserves: decodeTokenAccountAmount(baseVault.data),
+        quoteReserves: decodeTokenAccountAmount(quoteVault.data),
+      };
+      const price = getPoolSpotPrice(reserves);
+      this.logger.debug(`📊 AMM pool price for ${tokenAddress}: ${price}`);
+      return { ...pool, ...reserves, price };
+    } catch (error) {
+      this.logger.error(`❌ Error fetching pool state: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch and cache the pool account; mints and vaults never change after migration
+   */
+  private async loadPool(tokenAddress: string): Promise<PumpSwapPool & { address: PublicKey }> {
+    const cached = this.poolCache.get(tokenAddress);
+    if (cached) return cached;
+
+    const address = deriveCanonicalPoolAddress(new PublicKey(tokenAddress));
+    const accountInfo = await this.connection.getAccountInfo(address);
+    if (!accountInfo || !accountInfo.owner.equals(PUMP_SWAP_PROGRAM_ID)) {
+      throw new Error(`PumpSwap pool not found for ${tokenAddress}`);
+    }
+
+    const pool = { ...decodePoolAccount(accountInfo.data), address };
+    this.poolCache.set(tokenAddress, pool);
+    await this.redis.hset(`pumpswap:pool:${tokenAddress}`, 'address', address.toBase58());
+    return pool;
+  }
+}
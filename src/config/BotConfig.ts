@@ -8,6 +8,12 @@ import dotenv from 'dotenv';
 // Load environment variables from .env file
 dotenv.config();
 
+// Comma-separated list of base58 addresses from a single env var
+const base58List = z.preprocess(
+  value => typeof value === 'string' ? value.split(',').map(entry => entry.trim()).filter(Boolean) : value,
+  z.array(z.string().min(32).max(44)).default([])
+);
+
 /**
  * Core Solana network configuration schema
  * Validates RPC endpoints, timeouts, and connection parameters
@@ -15,14 +21,45 @@ dotenv.config();
 const SolanaConfigSchema = z.object({
   // Primary RPC endpoint for transactions
   rpcUrl: z.string().url('Invalid RPC URL format'),
+  // Additional RPC endpoints pooled with rpcUrl for health-scored routing and failover (comma-separated)
+  rpcUrls: z.preprocess(
+    value => typeof value === 'string' ? value.split(',').map(url => url.trim()).filter(Boolean) : value,
+    z.array(z.string().url('Invalid RPC URL format'))
+  ).default([]),
+  // Delay between RPC health checks in milliseconds
+  rpcHealthCheckInterval: z.coerce.number().min(1000).max(300000).default(10000),
+  // Slots an endpoint may trail the pool's best before it is considered unhealthy
+  rpcMaxSlotLag: z.coerce.number().min(1).max(1000).default(20),
   // WebSocket endpoint for real-time data
   wsUrl: z.string().url('Invalid WebSocket URL format'),
+  // Resync account subscriptions over RPC after this long without updates (ms)
+  wsStaleTimeout: z.coerce.number().min(1000).max(300000).default(30000),
   // Connection timeout in milliseconds
   connectionTimeout: z.coerce.number().min(1000).max(30000).default(10000),
   // Maximum retry attempts for failed requests
   maxRetries: z.coerce.number().min(1).max(10).default(3),
   // Commitment level for transaction confirmation
   commitment: z.enum(['processed', 'confirmed', 'finalized']).default('confirmed'),
+  // Compute-unit limit set on every order transaction
+  computeUnitLimit: z.coerce.number().min(10_000).max(1_400_000).default(200_000),
+  // Compute units added to the simulated usage, as a fraction (0.1 = 10%)
+  computeUnitHeadroom: z.coerce.number().min(0).max(1).default(0.1),
+  // Priority fee ceiling in micro-lamports per compute unit
+  maxPriorityFeeMicroLamports: z.coerce.number().min(0).max(100_000_000).default(1_000_000),
+  // Address lookup tables compiled into v0 messages (comma-separated base58)
+  lookupTables: base58List,
+  // Blockhash and slot prefetch interval in milliseconds
+  blockhashRefreshInterval: z.coerce.number().min(200).max(10000).default(1000),
+  // Orders are not signed against a blockhash older than this, in milliseconds
+  maxBlockhashAge: z.coerce.number().min(1000).max(60000).default(10000),
+  // Resend pending RPC submissions this often until they confirm or expire, in milliseconds
+  rebroadcastInterval: z.coerce.number().min(500).max(30000).default(2000),
+  // Stop following durable-nonce transactions, which never expire by block height, after this long
+  confirmationTimeout: z.coerce.number().min(10000).max(300000).default(60000),
+  // Durable nonce accounts derived from the wallet; 0 uses recent blockhashes instead
+  noncePoolSize: z.coerce.number().int().min(0).max(32).default(0),
+  // Nonce lease expiry in milliseconds, covering an order's full retry sequence
+  nonceLeaseTtl: z.coerce.number().min(10000).max(600000).default(120000),
 });
 
 /**
@@ -34,10 +71,38 @@ const JitoConfigSchema = z.object({
   blockEngineUrl: z.string().url('Invalid Jito Block Engine URL'),
   // Tip amount in lamports for bundle priority
   tipLamports: z.coerce.number().min(1000).max(100000).default(10000),
+  // Bounds for the dynamic per-bundle tip after retry and volatility scaling
+  minTipLamports: z.coerce.number().min(1000).max(100000).default(1000),
+  maxTipLamports: z.coerce.number().min(1000).max(10_000_000).default(500_000),
   // Maximum bundle size (Jito limit is 5 transactions)
   maxBundleSize: z.coerce.number().min(1).max(5).default(4),
   // Bundle timeout in milliseconds
   bundleTimeout: z.coerce.number().min(5000).max(30000).default(15000),
+  // Delay between bundle status polls in milliseconds
+  statusPollInterval: z.coerce.number().min(100).max(5000).default(500),
+  // Submission path: Jito bundles, plain RPC, or race both
+  submissionMode: z.enum(['jito', 'rpc', 'race']).default('jito'),
+  // Consecutive block engine errors before failing over to RPC
+  failoverThreshold: z.coerce.number().min(1).max(20).default(3),
+  // How long to stay on RPC before retrying the block engine, in milliseconds
+  failoverCooldown: z.coerce.number().min(1000).max(600000).default(60000),
+}).refine(jito => jito.minTipLamports <= jito.maxTipLamports, {
+  message: 'JITO_MIN_TIP_LAMPORTS must not exceed JITO_MAX_TIP_LAMPORTS',
+  path: ['minTipLamports'],
+});
+
+/**
+ * One token in portfolio mode; unset fields fall back to the trading section
+ */
+const PortfolioTokenSchema = z.object({
+  address: z.string().min(32).max(44),
+  baseAmountSol: z.coerce.number().min(0.001).max(100).optional(),
+  spreadPercentage: z.coerce.number().min(0.001).max(0.05).optional(),
+  // Largest long position this token may hold, in SOL
+  maxPositionSol: z.coerce.number().positive().optional(),
+  strategy: z.string().min(1).optional(),
+  // Trade cycle interval for this token in milliseconds (defaults to performance.metricsInterval)
+  cycleInterval: z.coerce.number().min(1000).max(60000).optional(),
 });
 
 /**
@@ -45,8 +110,23 @@ const JitoConfigSchema = z.object({
  * Controls market-making behavior and risk parameters
  */
 const TradingConfigSchema = z.object({
-  // Target token to market-make (Pump.fun token address)
-  targetToken: z.string().min(32).max(44),
+  // Target token to market-make (Pump.fun token address); optional when tokens is set
+  targetToken: z.string().min(32).max(44).optional(),
+  // Portfolio mode: tokens traded side by side (JSON array), replacing targetToken
+  tokens: z.preprocess((value, ctx) => {
+    if (typeof value !== 'string') return value;
+    if (value.trim() === '') return [];
+    try {
+      return JSON.parse(value);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be a JSON array of token entries' });
+      return z.NEVER;
+    }
+  }, z.array(PortfolioTokenSchema)).default([]),
+  // Long exposure across every token, in SOL; buys beyond it are trimmed or rejected
+  maxPortfolioExposureSol: z.coerce.number().positive().max(10_000).default(5),
+  // Orders in flight at once across all tokens, handed out round-robin
+  maxConcurrentOrders: z.coerce.number().int().min(1).max(16).default(2),
   // Base trading amount in SOL
   baseAmountSol: z.coerce.number().min(0.001).max(100),
   // Maximum slippage tolerance (percentage)
@@ -57,6 +137,49 @@ const TradingConfigSchema = z.object({
   rebalanceThreshold: z.coerce.number().min(0.01).max(0.2).default(0.02), // 2%
   // Maximum position size as percentage of portfolio
   maxPositionSize: z.coerce.number().min(0.1).max(1.0).default(0.8), // 80%
+  // Avellaneda-Stoikov risk aversion (gamma); higher skews quotes harder against inventory
+  riskAversion: z.coerce.number().positive().max(10).default(0.1),
+  // Avellaneda-Stoikov order arrival decay (k) per unit of relative price; the spread floor is roughly 2/k
+  orderArrivalIntensity: z.coerce.number().min(1).max(10_000).default(200),
+  // Quoting horizon (T - t) in volatility bars (volatilityBarInterval)
+  quoteHorizon: z.coerce.number().positive().max(10).default(1),
+  // Exponential size skew per lot of inventory (0 = symmetric sizes)
+  inventorySkew: z.coerce.number().min(0).max(5).default(0.5),
+  // Inventory cap in lots of baseAmountSol; no buys beyond it
+  maxInventoryLots: z.coerce.number().min(1).max(100).default(10),
+  // How rebalances execute: one order, or child orders via TWAP, participation of volume or impact-capped slicing
+  rebalanceAlgorithm: z.enum(['single', 'twap', 'pov', 'impact']).default('twap'),
+  // TWAP duration; participation and impact-capped parents expire after it (ms)
+  executionDuration: z.coerce.number().min(5000).max(3_600_000).default(60000),
+  // Delay between child orders (ms)
+  executionChildInterval: z.coerce.number().min(1000).max(60000).default(5000),
+  // Share of observed volume a participation child may take
+  participationRate: z.coerce.number().min(0.01).max(0.5).default(0.1),
+  // Price impact one impact-capped child may cause, from the curve or pool reserves
+  maxChildImpact: z.coerce.number().min(0.001).max(0.1).default(0.01), // 1%
+  // Smallest child order in SOL
+  minChildSol: z.coerce.number().min(0.001).max(10).default(0.01),
+  // Consecutive failed children before a parent order gives up
+  maxChildFailures: z.coerce.number().int().min(1).max(10).default(3),
+  // Realized volatility bar length (ms); volatility figures are per bar
+  volatilityBarInterval: z.coerce.number().min(1000).max(3_600_000).default(60000),
+  // EWMA decay per bar for close-to-close returns
+  volatilityEwmaLambda: z.coerce.number().min(0.5).max(0.999).default(0.94),
+  // Completed bars in the Parkinson high-low estimate
+  volatilityWindow: z.coerce.number().int().min(2).max(1000).default(30),
+  // Per-bar volatility at which spreads and tips double
+  volatilityTarget: z.coerce.number().min(0.001).max(1).default(0.02), // 2%
+  // Cap on the volatility spread and tip multiplier
+  maxSpreadMultiplier: z.coerce.number().min(1).max(10).default(3),
+  // Strategy used for tokens without an entry in tokenStrategies
+  strategy: z.string().min(1).default('default'),
+  // Per-token strategy overrides (comma-separated token=strategy pairs)
+  tokenStrategies: z.preprocess(
+    value => typeof value === 'string'
+      ? Object.fromEntries(value.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => entry.split('=').map(part => part.trim())))
+      : value,
+    z.record(z.string().min(32).max(44), z.string().min(1))
+  ).default({}),
 });
 
 /**
@@ -81,13 +204,47 @@ const RedisConfigSchema = z.object({
  * Handles private keys and authentication
  */
 const SecurityConfigSchema = z.object({
-  // Bot wallet private key (base58 encoded)
-  privateKey: z.string().min(32, 'Private key must be valid base58'),
-  // Optional passphrase for additional security
+  // Bot wallet private key (base58 or JSON byte array)
+  privateKey: z.string().min(32, 'Private key must be valid base58').optional(),
+  // Path to a passphrase-encrypted keystore file (takes precedence over privateKey)
+  keystorePath: z.string().min(1).optional(),
+  // Passphrase unlocking the keystore
   passphrase: z.string().optional(),
+  // Signing backend: in-memory key, Ledger device or remote HTTP signer
+  signer: z.enum(['local', 'ledger', 'remote']).default('local'),
+  // Public key the Ledger or remote signer must sign with (base58)
+  signerPublicKey: z.string().min(32).max(44).optional(),
+  // Ledger BIP44 derivation path
+  ledgerDerivationPath: z.string().default("44'/501'/0'/0'"),
+  // Remote signing service endpoint and bearer token
+  remoteSignerUrl: z.string().url('Invalid remote signer URL').optional(),
+  remoteSignerToken: z.string().optional(),
+  // Remote signing request timeout in milliseconds
+  remoteSignerTimeout: z.coerce.number().min(100).max(10000).default(2000),
+  // Signing policy: most SOL a single transaction may spend (transfers, rent and buy max cost)
+  maxSolPerTransaction: z.coerce.number().min(0.001).max(1000).default(1),
+  // Signing policy: most lamports a single transaction may tip Jito
+  maxTipLamports: z.coerce.number().min(1000).max(100_000_000).default(1_000_000),
+  // Signing policy: extra accounts allowed to receive SOL or tokens (comma-separated base58)
+  allowedDestinations: base58List,
+  // Append-only log of rejected signing requests
+  auditLogPath: z.string().min(1).default('logs/audit.log'),
   // API keys for external services
   heliusApiKey: z.string().min(10).optional(),
   jupiterApiKey: z.string().optional(),
+}).superRefine((security, ctx) => {
+  if (security.signer === 'local' && !security.privateKey && !security.keystorePath) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Either BOT_PRIVATE_KEY or BOT_KEYSTORE_PATH is required', path: ['privateKey'] });
+  }
+  if (security.signer === 'local' && security.keystorePath && !security.passphrase) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'BOT_PASSPHRASE is required with a keystore', path: ['passphrase'] });
+  }
+  if (security.signer !== 'local' && !security.signerPublicKey) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'BOT_SIGNER_PUBLIC_KEY is required for ledger and remote signers', path: ['signerPublicKey'] });
+  }
+  if (security.signer === 'remote' && !security.remoteSignerUrl) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'REMOTE_SIGNER_URL is required for the remote signer', path: ['remoteSignerUrl'] });
+  }
 });
 
 /**
@@ -133,6 +290,7 @@ export type BotConfig = z.infer<typeof BotConfigSchema>;
 export type SolanaConfig = z.infer<typeof SolanaConfigSchema>;
 export type JitoConfig = z.infer<typeof JitoConfigSchema>;
 export type TradingConfig = z.infer<typeof TradingConfigSchema>;
+export type PortfolioToken = z.infer<typeof PortfolioTokenSchema>;
 export type RedisConfig = z.infer<typeof RedisConfigSchema>;
 export type SecurityConfig = z.infer<typeof SecurityConfigSchema>;
 export type PerformanceConfig = z.infer<typeof PerformanceConfigSchema>;
@@ -206,24 +364,66 @@ export class BotConfigManager {
         environment: process.env.NODE_ENV || 'development',
         solana: {
           rpcUrl: process.env.SOLANA_RPC_URL,
+          rpcUrls: process.env.SOLANA_RPC_URLS,
+          rpcHealthCheckInterval: process.env.SOLANA_RPC_HEALTH_INTERVAL,
+          rpcMaxSlotLag: process.env.SOLANA_RPC_MAX_SLOT_LAG,
           wsUrl: process.env.SOLANA_WS_URL,
+          wsStaleTimeout: process.env.SOLANA_WS_STALE_TIMEOUT,
           connectionTimeout: process.env.SOLANA_CONNECTION_TIMEOUT,
           maxRetries: process.env.SOLANA_MAX_RETRIES,
           commitment: process.env.SOLANA_COMMITMENT,
+          computeUnitLimit: process.env.SOLANA_COMPUTE_UNIT_LIMIT,
+          computeUnitHeadroom: process.env.SOLANA_COMPUTE_UNIT_HEADROOM,
+          maxPriorityFeeMicroLamports: process.env.SOLANA_MAX_PRIORITY_FEE,
+          lookupTables: process.env.SOLANA_LOOKUP_TABLES,
+          blockhashRefreshInterval: process.env.SOLANA_BLOCKHASH_REFRESH_INTERVAL,
+          maxBlockhashAge: process.env.SOLANA_MAX_BLOCKHASH_AGE,
+          rebroadcastInterval: process.env.SOLANA_REBROADCAST_INTERVAL,
+          confirmationTimeout: process.env.SOLANA_CONFIRMATION_TIMEOUT,
+          noncePoolSize: process.env.SOLANA_NONCE_POOL_SIZE,
+          nonceLeaseTtl: process.env.SOLANA_NONCE_LEASE_TTL,
         },
         jito: {
           blockEngineUrl: process.env.JITO_BLOCK_ENGINE_URL,
           tipLamports: process.env.JITO_TIP_LAMPORTS,
+          minTipLamports: process.env.JITO_MIN_TIP_LAMPORTS,
+          maxTipLamports: process.env.JITO_MAX_TIP_LAMPORTS,
           maxBundleSize: process.env.JITO_MAX_BUNDLE_SIZE,
           bundleTimeout: process.env.JITO_BUNDLE_TIMEOUT,
+          statusPollInterval: process.env.JITO_STATUS_POLL_INTERVAL,
+          submissionMode: process.env.JITO_SUBMISSION_MODE,
+          failoverThreshold: process.env.JITO_FAILOVER_THRESHOLD,
+          failoverCooldown: process.env.JITO_FAILOVER_COOLDOWN,
         },
         trading: {
           targetToken: process.env.TARGET_TOKEN,
+          tokens: process.env.PORTFOLIO_TOKENS,
+          maxPortfolioExposureSol: process.env.MAX_PORTFOLIO_EXPOSURE_SOL,
+          maxConcurrentOrders: process.env.MAX_CONCURRENT_ORDERS,
           baseAmountSol: process.env.BASE_AMOUNT_SOL,
           maxSlippage: process.env.MAX_SLIPPAGE,
           spreadPercentage: process.env.SPREAD_PERCENTAGE,
           rebalanceThreshold: process.env.REBALANCE_THRESHOLD,
           maxPositionSize: process.env.MAX_POSITION_SIZE,
+          riskAversion: process.env.RISK_AVERSION,
+          orderArrivalIntensity: process.env.ORDER_ARRIVAL_INTENSITY,
+          quoteHorizon: process.env.QUOTE_HORIZON,
+          inventorySkew: process.env.INVENTORY_SKEW,
+          maxInventoryLots: process.env.MAX_INVENTORY_LOTS,
+          rebalanceAlgorithm: process.env.REBALANCE_ALGORITHM,
+          executionDuration: process.env.EXECUTION_DURATION,
+          executionChildInterval: process.env.EXECUTION_CHILD_INTERVAL,
+          participationRate: process.env.PARTICIPATION_RATE,
+          maxChildImpact: process.env.MAX_CHILD_IMPACT,
+          minChildSol: process.env.MIN_CHILD_SOL,
+          maxChildFailures: process.env.MAX_CHILD_FAILURES,
+          volatilityBarInterval: process.env.VOLATILITY_BAR_INTERVAL,
+          volatilityEwmaLambda: process.env.VOLATILITY_EWMA_LAMBDA,
+          volatilityWindow: process.env.VOLATILITY_WINDOW,
+          volatilityTarget: process.env.VOLATILITY_TARGET,
+          maxSpreadMultiplier: process.env.MAX_SPREAD_MULTIPLIER,
+          strategy: process.env.STRATEGY,
+          tokenStrategies: process.env.TOKEN_STRATEGIES,
         },
         redis: {
           url: process.env.REDIS_URL,
@@ -234,7 +434,18 @@ export class BotConfigManager {
         },
         security: {
           privateKey: process.env.BOT_PRIVATE_KEY,
+          keystorePath: process.env.BOT_KEYSTORE_PATH,
           passphrase: process.env.BOT_PASSPHRASE,
+          signer: process.env.BOT_SIGNER,
+          signerPublicKey: process.env.BOT_SIGNER_PUBLIC_KEY,
+          ledgerDerivationPath: process.env.LEDGER_DERIVATION_PATH,
+          remoteSignerUrl: process.env.REMOTE_SIGNER_URL,
+          remoteSignerToken: process.env.REMOTE_SIGNER_TOKEN,
+          remoteSignerTimeout: process.env.REMOTE_SIGNER_TIMEOUT,
+          maxSolPerTransaction: process.env.SIGNER_MAX_SOL_PER_TX,
+          maxTipLamports: process.env.SIGNER_MAX_TIP_LAMPORTS,
+          allowedDestinations: process.env.SIGNER_ALLOWED_DESTINATIONS,
+          auditLogPath: process.env.AUDIT_LOG_PATH,
           heliusApiKey: process.env.HELIUS_API_KEY,
           jupiterApiKey: process.env.JUPITER_API_KEY,
         },
@@ -255,7 +466,10 @@ export class BotConfigManager {
       
       console.log('✅ Configuration loaded and validated successfully');
       console.log(`📊 Environment: ${validatedConfig.environment}`);
-      console.log(`🎯 Target Token: ${validatedConfig.trading.targetToken.slice(0, 8)}...`);
+      const { targetToken, tokens } = validatedConfig.trading;
+      console.log(tokens.length > 0
+        ? `🎯 Portfolio: ${tokens.length} tokens`
+        : `🎯 Target Token: ${targetToken!.slice(0, 8)}...`);
       
       return validatedConfig;
     } catch (error) {
@@ -280,6 +494,14 @@ export class BotConfigManager {
    * Ensures configuration values make sense in trading context
    */
   private validateBusinessRules(config: BotConfig): void {
+    const { targetToken, tokens } = config.trading;
+    if (!targetToken && tokens.length === 0) {
+      throw new Error('Either a target token or portfolio tokens must be configured');
+    }
+    if (new Set(tokens.map(token => token.address)).size !== tokens.length) {
+      throw new Error('Portfolio tokens must be unique');
+    }
+
     // Ensure spread is larger than slippage to prevent immediate losses
     if (config.trading.spreadPercentage <= config.trading.maxSlippage) {
       throw new Error('Spread percentage must be greater than max slippage');
@@ -290,6 +512,10 @@ export class BotConfigManager {
       throw new Error('Rebalance threshold must be less than max position size');
     }
 
+    if (config.trading.executionChildInterval >= config.trading.executionDuration) {
+      throw new Error('Execution child interval must be shorter than the execution duration');
+    }
+
     // Ensure tip amount is economically viable
     if (config.jito.tipLamports > config.trading.baseAmountSol * 1000000 * 0.1) {
       console.warn('⚠️ Jito tip amount is >10% of base trading amount');
@@ -0,0 +1,103 @@
+// /src/engine/BlockhashPrefetcher.ts
+// Purpose: Keeps the latest blockhash and slot in memory so order routing never waits on RPC for them
+
+import { Commitment, Connection } from '@solana/web3.js';
+import { setInterval, clearInterval } from 'node:timers';
+
+/**
+ * Chain values as of the last successful refresh
+ */
+export interface ChainSnapshot {
+  blockhash: string;
+  lastValidBlockHeight: number;
+  slot: number;
+  fetchedAt: number;
+}
+
+/**
+ * Raised instead of handing out a blockhash or slot older than the configured limit
+ */
+export class StaleChainStateError extends Error {
+  readonly ageMs: number;
+
+  constructor(ageMs: number, maxAgeMs: number) {
+    super(Number.isFinite(ageMs)
+      ? `Blockhash is ${ageMs}ms old, limit is ${maxAgeMs}ms`
+      : 'Blockhash has not been fetched yet');
+    this.name = 'StaleChainStateError';
+    this.ageMs = ageMs;
+  }
+}
+
+export interface BlockhashPrefetcherOptions {
+  refreshIntervalMs: number;
+  // Refuse to hand out values older than this
+  maxAgeMs: number;
+  commitment: Commitment;
+}
+
+/**
+ * BlockhashPrefetcher class refreshing blockhash and slot on a timer
+ */
+export class BlockhashPrefetcher {
+  private readonly connection: Connection;
+  private readonly options: BlockhashPrefetcherOptions;
+  private snapshot: ChainSnapshot | null = null;
+  private refreshTimer?: NodeJS.Timeout;
+  private refreshing = false;
+
+  constructor(connection: Connection, options: BlockhashPrefetcherOptions) {
+    if (!connection) throw new Error('Solana connection is required');
+    this.connection = connection;
+    this.options = options;
+  }
+
+  /**
+   * Fetch once, then keep refreshing in the background
+   */
+  async start(): Promise<void> {
+    await this.refresh();
+    this.refreshTimer ??= setInterval(() => this.refresh(), this.options.refreshIntervalMs).unref();
+  }
+
+  stop(): void {
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.refreshTimer = undefined;
+  }
+
+  /**
+   * Latest values without touching RPC
+   * @throws StaleChainStateError when the last refresh is older than maxAgeMs
+   */
+  current(): ChainSnapshot {
+    const ageMs = this.ageMs();
+    if (!this.snapshot || ageMs > this.options.maxAgeMs) throw new StaleChainStateError(ageMs, this.options.maxAgeMs);
+    return this.snapshot;
+  }
+
+  /**
+   * Milliseconds since the last successful refresh; Infinity before the first
+   */
+  ageMs(): number {
+    return this.snapshot ? Date.now() - this.snapshot.fetchedAt : Infinity;
+  }
+
+  /**
+   * Failed refreshes keep the previous values; their age eventually trips current()
+   */
+  async refresh(): Promise<void> {
+    if (this.refreshing) return;
+    this.refreshing = true;
+    try {
+      const [{ blockhash, lastValidBlockHeight }, slot] = await Promise.all([
+        this.connection.getLatestBlockhash(this.options.commitment),
+        this.connection.getSlot(this.options.commitment),
+      ]);
+      this.snapshot = { blockhash, lastValidBlockHeight, slot, fetchedAt: Date.now() };
+    } catch (error) {
+      console.warn(`⚠️ Blockhash refresh failed, last value is ${this.ageMs()}ms old: ${(error as Error).message}`);
+    } finally {
+      this.refreshing = false;
+    }
+  }
+}
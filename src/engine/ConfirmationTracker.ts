@@ -0,0 +1,135 @@
+// /src/engine/ConfirmationTracker.ts
+// Purpose: Follows submitted signatures to a final status: confirmed, failed, or expired past their blockhash or nonce
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import { Commitment, Connection, PublicKey, SignatureStatus } from '@solana/web3.js';
+
+export type ConfirmationStatus = 'confirmed' | 'failed' | 'expired';
+
+/**
+ * When a transaction stops being valid: its blockhash ages out, or its durable nonce moves on
+ */
+export type TransactionExpiry =
+  | { lastValidBlockHeight: number }
+  | { nonceAccount: PublicKey; nonce: string };
+
+export interface TrackedTransaction {
+  signature: string;
+  // Serialized signed transaction, needed for rebroadcasts
+  transaction: Buffer;
+  expiry: TransactionExpiry;
+}
+
+/**
+ * Final status of one signature
+ */
+export interface ConfirmationOutcome {
+  signature: string;
+  status: ConfirmationStatus;
+  slot?: number;
+  error?: string;
+}
+
+export interface ConfirmationTrackerOptions {
+  // Status a signature must reach to count as confirmed (solana.commitment)
+  commitment: Commitment;
+  pollIntervalMs: number;
+  rebroadcastIntervalMs: number;
+  // Nonce transactions never age out by block height; stop following them after this long
+  maxTrackingMs: number;
+}
+
+const COMMITMENT_RANK: Record<string, number> = { processed: 0, confirmed: 1, finalized: 2 };
+
+/**
+ * ConfirmationTracker class polling signature statuses until each one is final
+ */
+export class ConfirmationTracker {
+  private readonly connection: Connection;
+  private readonly options: ConfirmationTrackerOptions;
+
+  constructor(connection: Connection, options: ConfirmationTrackerOptions) {
+    if (!connection) throw new Error('Solana connection is required');
+    this.connection = connection;
+    this.options = options;
+  }
+
+  /**
+   * Track transactions until every one is confirmed, failed or expired
+   * @param rebroadcast Resend pending transactions through RPC; only for transactions that may land on their own
+   * @param signal Stops polling and rebroadcasting; the returned promise rejects with the abort reason
+   * @returns Outcomes in input order
+   */
+  async track(transactions: TrackedTransaction[], rebroadcast: boolean, signal?: AbortSignal): Promise<ConfirmationOutcome[]> {
+    const outcomes = new Map<string, ConfirmationOutcome>();
+    const deadline = Date.now() + this.options.maxTrackingMs;
+    let lastBroadcastAt = Date.now();
+
+    while (outcomes.size < transactions.length) {
+      signal?.throwIfAborted();
+      const pending = transactions.filter(tx => !outcomes.has(tx.signature));
+
+      // Expiry is read before statuses so a transaction that landed just before expiring is still seen
+      const expired = await this.findExpired(pending, Date.now() >= deadline);
+      const { value: statuses } = await this.connection.getSignatureStatuses(pending.map(tx => tx.signature));
+
+      for (const [index, tx] of pending.entries()) {
+        const outcome = this.resolve(tx.signature, statuses[index] ?? null, expired.has(tx.signature));
+        if (outcome) outcomes.set(tx.signature, outcome);
+      }
+      if (outcomes.size === transactions.length) break;
+
+      if (rebroadcast && Date.now() - lastBroadcastAt >= this.options.rebroadcastIntervalMs) {
+        lastBroadcastAt = Date.now();
+        await this.rebroadcast(transactions.filter(tx => !outcomes.has(tx.signature)));
+      }
+      await sleep(this.options.pollIntervalMs, undefined, { signal });
+    }
+
+    return transactions.map(tx => outcomes.get(tx.signature)!);
+  }
+
+  private resolve(signature: string, status: SignatureStatus | null, expired: boolean): ConfirmationOutcome | null {
+    if (status?.err) return { signature, status: 'failed', slot: status.slot, error: JSON.stringify(status.err) };
+    if (status && this.meetsCommitment(status)) return { signature, status: 'confirmed', slot: status.slot };
+    // A landed but not yet confirmed transaction can no longer expire
+    if (expired && !status) return { signature, status: 'expired' };
+    return null;
+  }
+
+  private meetsCommitment(status: SignatureStatus): boolean {
+    const reached = COMMITMENT_RANK[status.confirmationStatus ?? 'processed'] ?? 0;
+    return reached >= (COMMITMENT_RANK[this.options.commitment] ?? COMMITMENT_RANK.confirmed!);
+  }
+
+  /**
+   * Signatures whose blockhash is past its last valid block height or whose nonce has advanced
+   * @param timedOut Treat nonce transactions as expired once maxTrackingMs has passed
+   */
+  private async findExpired(pending: TrackedTransaction[], timedOut: boolean): Promise<Set<string>> {
+    const expired = new Set<string>();
+    const byHeight = pending.filter(tx => 'lastValidBlockHeight' in tx.expiry);
+    const byNonce = pending.filter(tx => 'nonceAccount' in tx.expiry);
+
+    if (byHeight.length > 0) {
+      const blockHeight = await this.connection.getBlockHeight(this.options.commitment);
+      for (const tx of byHeight) {
+        if (blockHeight > (tx.expiry as { lastValidBlockHeight: number }).lastValidBlockHeight) expired.add(tx.signature);
+      }
+    }
+    for (const tx of byNonce) {
+      const { nonceAccount, nonce } = tx.expiry as { nonceAccount: PublicKey; nonce: string };
+      const account = await this.connection.getNonce(nonceAccount, this.options.commitment);
+      if (timedOut || !account || account.nonce !== nonce) expired.add(tx.signature);
+    }
+    return expired;
+  }
+
+  private async rebroadcast(pending: TrackedTransaction[]): Promise<void> {
+    await Promise.all(pending.map(tx =>
+      this.connection.sendRawTransaction(tx.transaction, { skipPreflight: true, maxRetries: 0 }).catch(error =>
+        console.warn(`⚠️ Rebroadcast of ${tx.signature.slice(0, 8)}... failed: ${(error as Error).message}`)
+      )
+    ));
+  }
+}
@@ -0,0 +1,67 @@
+// /src/engine/ExecutionAlgorithms.ts
+// Purpose: Child order sizing for parent orders: time-weighted, participation-of-volume and impact-capped slicing
+
+export type ExecutionAlgorithm = 'twap' | 'pov' | 'impact';
+
+/**
+ * Tuning shared by all algorithms
+ */
+export interface ExecutionParams {
+  // TWAP spreads the parent over this long; POV and impact-capped parents expire after it
+  durationMs: number;
+  childIntervalMs: number;
+  // Share of observed market volume a POV child may take (0.1 = 10%)
+  participationRate: number;
+  // Price impact one impact-capped child may cause (0.01 = 1%)
+  maxImpact: number;
+  // Children smaller than this are not sent; a smaller remainder counts as done
+  minChildSol: number;
+}
+
+/**
+ * What an algorithm sees before each child
+ */
+export interface SliceContext {
+  totalSol: number;
+  remainingSol: number;
+  elapsedMs: number;
+  // SOL-side reserves of the curve or pool, in lamports
+  solReserves: bigint;
+  // Volume traded by others since the previous child, in SOL
+  marketVolumeSol: number;
+}
+
+/**
+ * Size of the next child in SOL; 0 skips this interval
+ */
+export type SlicePolicy = (context: SliceContext) => number;
+
+/**
+ * Build the sizing policy for an algorithm
+ */
+export function createSlicePolicy(algorithm: ExecutionAlgorithm, params: ExecutionParams): SlicePolicy {
+  switch (algorithm) {
+    case 'twap':
+      return context => twapChild(context, params);
+    case 'pov':
+      return context => Math.min(context.marketVolumeSol * params.participationRate, context.remainingSol);
+    case 'impact':
+      return context => Math.min(maxChildForImpact(context.solReserves, params.maxImpact), context.remainingSol);
+  }
+}
+
+/**
+ * Catch up to the straight-line schedule; a failed or skipped child is made up by the next one
+ */
+function twapChild({ totalSol, remainingSol, elapsedMs }: SliceContext, params: ExecutionParams): number {
+  const scheduledSol = totalSol * Math.min((elapsedMs + params.childIntervalMs) / params.durationMs, 1);
+  return Math.min(Math.max(scheduledSol - (totalSol - remainingSol), 0), remainingSol);
+}
+
+/**
+ * Largest SOL amount whose average execution price stays within maxImpact of spot
+ * On a constant-product curve that impact is amount / solReserves, on either side
+ */
+export function maxChildForImpact(solReserves: bigint, maxImpact: number): number {
+  return (Number(solReserves) / 1_000_000_000) * maxImpact;
+}
@@ -0,0 +1,231 @@
+// /src/engine/ExecutionEngine.ts
+// Purpose: Works parent orders as a series of child orders through the router, tracking progress and allowing cancellation
+
+import { randomUUID } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { OrderRouter } from './OrderRouter.js';
+import { ExecutionAlgorithm, ExecutionParams, SlicePolicy, createSlicePolicy } from './ExecutionAlgorithms.js';
+
+/**
+ * Order to work over time instead of in one shot
+ */
+export interface ParentOrderRequest {
+  tokenAddress: string;
+  side: 'buy' | 'sell';
+  totalSol: number;
+  algorithm: ExecutionAlgorithm;
+  maxSlippageBps: number;
+}
+
+export type ParentOrderStatus = 'working' | 'completed' | 'cancelled' | 'expired' | 'failed';
+
+/**
+ * Point-in-time view of a parent order
+ */
+export interface ParentOrderProgress {
+  id: string;
+  tokenAddress: string;
+  side: 'buy' | 'sell';
+  algorithm: ExecutionAlgorithm;
+  status: ParentOrderStatus;
+  totalSol: number;
+  // Requested size of the children that landed, and what is left of the parent
+  executedSol: number;
+  remainingSol: number;
+  // SOL and whole tokens that changed hands per confirmed fills; a landed child whose fill could not be read counts its requested SOL
+  filledSol: number;
+  filledTokens: number;
+  // SOL per token over children with a known fill; 0 until one lands
+  averagePrice: number;
+  childOrders: number;
+  failedChildren: number;
+  startedAt: number;
+  finishedAt?: number;
+  error?: string;
+}
+
+/**
+ * Handle to a working parent order
+ */
+export interface ParentOrder {
+  readonly id: string;
+  progress(): ParentOrderProgress;
+  // Stops before the next child; a child already submitted still completes
+  cancel(): void;
+  readonly done: Promise<ParentOrderProgress>;
+}
+
+export interface ExecutionEngineOptions extends ExecutionParams {
+  // Consecutive child failures before the parent gives up
+  maxChildFailures: number;
+}
+
+/**
+ * SOL-side reserves of the venue a token trades on, in lamports
+ */
+export type SolReservesSource = (tokenAddress: string) => Promise<bigint>;
+
+/**
+ * ExecutionEngine class running one child loop per parent order
+ * Emits 'progress' after every child and 'finished' once a parent stops working
+ */
+export class ExecutionEngine extends EventEmitter {
+  private readonly router: Pick<OrderRouter, 'executeOrder'>;
+  private readonly solReserves: SolReservesSource;
+  private readonly options: ExecutionEngineOptions;
+  private readonly orders = new Map<string, ParentOrder>();
+
+  constructor(router: Pick<OrderRouter, 'executeOrder'>, solReserves: SolReservesSource, options: ExecutionEngineOptions) {
+    super();
+    this.router = router;
+    this.solReserves = solReserves;
+    this.options = options;
+  }
+
+  /**
+   * Start working a parent order in the background
+   * @throws Error when the token already has a working parent order
+   */
+  start(request: ParentOrderRequest): ParentOrder {
+    if (this.active(request.tokenAddress)) throw new Error(`A parent order is already working ${request.tokenAddress}`);
+    if (!(request.totalSol > 0)) throw new Error(`Invalid parent order size: ${request.totalSol}`);
+
+    const state: ParentOrderProgress = {
+      id: randomUUID(),
+      tokenAddress: request.tokenAddress,
+      side: request.side,
+      algorithm: request.algorithm,
+      status: 'working',
+      totalSol: request.totalSol,
+      executedSol: 0,
+      remainingSol: request.totalSol,
+      filledSol: 0,
+      filledTokens: 0,
+      averagePrice: 0,
+      childOrders: 0,
+      failedChildren: 0,
+      startedAt: Date.now(),
+    };
+    const abort = new AbortController();
+    const done = this.work(request, state, createSlicePolicy(request.algorithm, this.options), abort.signal)
+      .then(status => this.finish(state, status))
+      .catch(error => this.finish(state, 'failed', (error as Error).message));
+
+    const order: ParentOrder = {
+      id: state.id,
+      progress: () => ({ ...state }),
+      cancel: () => abort.abort(),
+      done,
+    };
+    this.orders.set(state.id, order);
+    return order;
+  }
+
+  get(id: string): ParentOrder | undefined {
+    return this.orders.get(id);
+  }
+
+  /**
+   * Working parent order for a token, if any
+   */
+  active(tokenAddress: string): ParentOrder | undefined {
+    return [...this.orders.values()].find(order => order.progress().tokenAddress === tokenAddress);
+  }
+
+  list(): ParentOrderProgress[] {
+    return [...this.orders.values()].map(order => order.progress());
+  }
+
+  cancel(id: string): boolean {
+    const order = this.orders.get(id);
+    order?.cancel();
+    return order !== undefined;
+  }
+
+  cancelAll(): void {
+    for (const order of this.orders.values()) order.cancel();
+  }
+
+  /**
+   * @returns Status the parent stopped in
+   * @throws Error once maxChildFailures consecutive children failed
+   */
+  private async work(
+    request: ParentOrderRequest,
+    state: ParentOrderProgress,
+    policy: SlicePolicy,
+    signal: AbortSignal
+  ): Promise<ParentOrderStatus> {
+    const { minChildSol, durationMs, childIntervalMs, maxChildFailures } = this.options;
+    let previousReserves = await this.solReserves(request.tokenAddress);
+    // Our own fills move the reserves too; they are not market volume
+    let ownVolumeSol = 0;
+    let pricedSol = 0;
+    let consecutiveFailures = 0;
+
+    while (true) {
+      if (signal.aborted) return 'cancelled';
+      if (state.remainingSol < minChildSol) return 'completed';
+      const elapsedMs = Date.now() - state.startedAt;
+      // TWAP catches up to the full size once its duration has passed; the others stop there
+      if (request.algorithm !== 'twap' && elapsedMs >= durationMs) return 'expired';
+
+      const solReserves = await this.solReserves(request.tokenAddress);
+      const marketVolumeSol = Math.max(Math.abs(Number(solReserves - previousReserves)) / 1_000_000_000 - ownVolumeSol, 0);
+      previousReserves = solReserves;
+      ownVolumeSol = 0;
+
+      const childSol = policy({ totalSol: state.totalSol, remainingSol: state.remainingSol, elapsedMs, solReserves, marketVolumeSol });
+      if (childSol >= minChildSol) {
+        state.childOrders++;
+        const result = await this.router.executeOrder({
+          type: request.side,
+          tokenAddress: request.tokenAddress,
+          amountLamports: Math.round(childSol * 1_000_000_000),
+          maxSlippageBps: request.maxSlippageBps,
+        });
+
+        if (result.success) {
+          consecutiveFailures = 0;
+          state.executedSol += childSol;
+          state.remainingSol = Math.max(state.totalSol - state.executedSol, 0);
+          const fill = result.fill?.fill;
+          if (fill) {
+            const tokens = Number(fill.tokenAmount) / 10 ** fill.tokenDecimals;
+            state.filledSol += fill.solLamports / 1_000_000_000;
+            state.filledTokens += tokens;
+            pricedSol += fill.solLamports / 1_000_000_000;
+            state.averagePrice = state.filledTokens > 0 ? pricedSol / state.filledTokens : 0;
+            ownVolumeSol += fill.solLamports / 1_000_000_000;
+          } else {
+            // Landed, but the fill could not be read; count the requested size toward progress only
+            state.filledSol += childSol;
+            ownVolumeSol += childSol;
+          }
+        } else {
+          state.failedChildren++;
+          if (++consecutiveFailures >= maxChildFailures) {
+            throw new Error(`${consecutiveFailures} consecutive child orders failed, last: ${result.error}`);
+          }
+        }
+        this.emit('progress', { ...state });
+      }
+
+      try {
+        await sleep(childIntervalMs, undefined, { signal });
+      } catch {
+        // Aborted; the loop records the cancellation
+      }
+    }
+  }
+
+  private finish(state: ParentOrderProgress, status: ParentOrderStatus, error?: string): ParentOrderProgress {
+    state.status = status;
+    if (error) state.error = error;
+    state.finishedAt = Date.now();
+    this.orders.delete(state.id);
+    this.emit('finished', { ...state });
+    return { ...state };
+  }
+}
@@ -0,0 +1,152 @@
+// /src/engine/FillParser.ts
+// Purpose: Extracts what an order actually executed from a confirmed transaction's balance changes
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import { Connection, Finality, PublicKey, TokenBalance, VersionedTransactionResponse } from '@solana/web3.js';
+import { WSOL_MINT } from '../lib/pumpswap/PumpSwapPool.js';
+
+/**
+ * Executed quantities for one order, from the wallet's point of view
+ */
+export interface Fill {
+  signature: string;
+  slot: number;
+  // Raw token units received (buy) or sent (sell), always positive
+  tokenAmount: bigint;
+  tokenDecimals: number;
+  // Lamports paid to (buy) or received from (sell) the venue, excluding fees, tip and rent
+  solLamports: number;
+  networkFeeLamports: number;
+  tipLamports: number;
+  // Rent for token accounts opened by the transaction; refundable when they are closed
+  rentLamports: number;
+  // SOL per whole token
+  effectivePrice: number;
+}
+
+/**
+ * Fill compared against the order that produced it
+ */
+export interface FillReconciliation {
+  fill: Fill;
+  expectedLamports: number;
+  // Signed deviation of the executed SOL amount from the expected one
+  deviationBps: number;
+  mismatch: boolean;
+}
+
+export interface FillContext {
+  side: 'buy' | 'sell';
+  wallet: PublicKey;
+  tokenAddress: string;
+  // Tip transferred by this transaction, known from how it was built
+  tipLamports: number;
+}
+
+export interface FillParserOptions {
+  commitment: Finality;
+  // Confirmed transactions can take a moment to be served by getTransaction
+  fetchAttempts: number;
+  fetchRetryDelayMs: number;
+}
+
+/**
+ * FillParser class fetching confirmed transactions and reading the wallet's balance deltas
+ */
+export class FillParser {
+  private readonly connection: Connection;
+  private readonly options: FillParserOptions;
+
+  constructor(connection: Connection, options: FillParserOptions) {
+    if (!connection) throw new Error('Solana connection is required');
+    this.connection = connection;
+    this.options = options;
+  }
+
+  /**
+   * @throws Error when the transaction cannot be fetched or carries no balance metadata
+   */
+  async parse(signature: string, context: FillContext): Promise<Fill> {
+    for (let attempt = 1; attempt <= this.options.fetchAttempts; attempt++) {
+      const transaction = await this.connection.getTransaction(signature, {
+        commitment: this.options.commitment,
+        maxSupportedTransactionVersion: 0,
+      });
+      if (transaction) return parseFill(transaction, signature, context);
+      if (attempt < this.options.fetchAttempts) await sleep(this.options.fetchRetryDelayMs);
+    }
+    throw new Error(`Transaction ${signature} not available after ${this.options.fetchAttempts} attempts`);
+  }
+}
+
+/**
+ * Read a fill from balance metadata; wrapped SOL held by the wallet counts as SOL
+ */
+export function parseFill(transaction: VersionedTransactionResponse, signature: string, context: FillContext): Fill {
+  const { meta } = transaction;
+  if (!meta) throw new Error(`Transaction ${signature} has no balance metadata`);
+  if (meta.err) throw new Error(`Transaction ${signature} failed: ${JSON.stringify(meta.err)}`);
+
+  const wallet = context.wallet.toBase58();
+  const walletIndex = transaction.transaction.message.staticAccountKeys.findIndex(key => key.toBase58() === wallet);
+  if (walletIndex < 0) throw new Error(`Wallet ${wallet} is not part of transaction ${signature}`);
+
+  const token = tokenDelta(meta.preTokenBalances ?? [], meta.postTokenBalances ?? [], wallet, context.tokenAddress);
+  const wsol = tokenDelta(meta.preTokenBalances ?? [], meta.postTokenBalances ?? [], wallet, WSOL_MINT.toBase58());
+
+  // Token accounts without a pre-balance were opened here; their lamports beyond wrapped SOL are rent
+  const rentLamports = [...token.openedAccounts, ...wsol.openedAccounts].reduce((sum, { accountIndex, mint, amount }) =>
+    sum + (meta.postBalances[accountIndex] ?? 0) - (mint === WSOL_MINT.toBase58() ? Number(amount) : 0), 0);
+
+  const walletDelta = (meta.postBalances[walletIndex] ?? 0) - (meta.preBalances[walletIndex] ?? 0) + Number(wsol.delta);
+  // Negative when SOL went to the venue
+  const venueDelta = walletDelta + meta.fee + context.tipLamports + rentLamports;
+  const solLamports = Math.abs(venueDelta);
+  const tokenAmount = token.delta < 0n ? -token.delta : token.delta;
+  const tokens = Number(tokenAmount) / 10 ** token.decimals;
+
+  return {
+    signature,
+    slot: transaction.slot,
+    tokenAmount,
+    tokenDecimals: token.decimals,
+    solLamports,
+    networkFeeLamports: meta.fee,
+    tipLamports: context.tipLamports,
+    rentLamports,
+    effectivePrice: tokens === 0 ? 0 : solLamports / 1_000_000_000 / tokens,
+  };
+}
+
+/**
+ * Compare a fill with the SOL amount the order was built for
+ * @param toleranceBps Deviation allowed before the fill counts as a mismatch (the order's slippage)
+ */
+export function reconcileFill(fill: Fill, side: 'buy' | 'sell', expectedLamports: number, toleranceBps: number): FillReconciliation {
+  const deviationBps = expectedLamports === 0 ? 0 : Math.round(((fill.solLamports - expectedLamports) / expectedLamports) * 10000);
+  // Buys may spend less than the maximum, sells may receive more than the minimum; only the adverse side counts
+  const adverseBps = side === 'buy' ? deviationBps : -deviationBps;
+  return {
+    fill,
+    expectedLamports,
+    deviationBps,
+    mismatch: fill.tokenAmount === 0n || adverseBps > toleranceBps,
+  };
+}
+
+function tokenDelta(pre: TokenBalance[], post: TokenBalance[], owner: string, mint: string) {
+  const mine = (balance: TokenBalance) => balance.owner === owner && balance.mint === mint;
+  const before = pre.filter(mine);
+  const after = post.filter(mine);
+
+  const sum = (balances: TokenBalance[]) => balances.reduce((total, balance) => total + BigInt(balance.uiTokenAmount.amount), 0n);
+  const openedAccounts = after
+    .filter(balance => !before.some(previous => previous.accountIndex === balance.accountIndex))
+    .map(balance => ({ accountIndex: balance.accountIndex, mint, amount: BigInt(balance.uiTokenAmount.amount) }));
+
+  return {
+    delta: sum(after) - sum(before),
+    decimals: (after[0] ?? before[0])?.uiTokenAmount.decimals ?? 0,
+    openedAccounts,
+  };
+}
@@ -0,0 +1,176 @@
+// /src/engine/JitoBlockEngineClient.ts
+// Purpose: JSON-RPC client for the Jito block engine: bundle submission, status polling and tip accounts
+
+import { setTimeout as sleep } from 'node:timers/promises';
+
+export type BundleStatus = 'landed' | 'failed' | 'dropped' | 'timeout';
+
+/**
+ * Final outcome of a submitted bundle
+ */
+export interface BundleOutcome {
+  bundleId: string;
+  status: BundleStatus;
+  // Transaction signatures in bundle order (only known once landed)
+  signatures: string[];
+  slot?: number;
+  error?: string;
+}
+
+/**
+ * Block engine transport or JSON-RPC failure
+ */
+export class BlockEngineError extends Error {
+  readonly method: string;
+  readonly code?: number;
+
+  constructor(method: string, message: string, code?: number) {
+    super(`Block engine ${method} failed: ${message}`);
+    this.name = 'BlockEngineError';
+    this.method = method;
+    this.code = code;
+  }
+}
+
+export interface JitoBlockEngineClientOptions {
+  // Per-request timeout in milliseconds
+  requestTimeoutMs: number;
+  // Delay between status polls in milliseconds
+  pollIntervalMs: number;
+}
+
+interface InflightBundleStatus {
+  bundle_id: string;
+  status: 'Invalid' | 'Pending' | 'Failed' | 'Landed';
+  landed_slot: number | null;
+}
+
+interface BundleStatusEntry {
+  bundle_id: string;
+  transactions: string[];
+  slot: number;
+  confirmation_status: string;
+  err: { Ok: null } | Record<string, unknown>;
+}
+
+// Status methods live on their own paths; everything else goes to /bundles
+const METHOD_PATHS: Record<string, string> = {
+  getInflightBundleStatuses: '/api/v1/getInflightBundleStatuses',
+  getTipAccounts: '/api/v1/getTipAccounts',
+};
+
+/**
+ * JitoBlockEngineClient class wrapping the block engine HTTP API
+ */
+export class JitoBlockEngineClient {
+  private readonly baseUrl: string;
+  private readonly options: JitoBlockEngineClientOptions;
+  private requestId = 0;
+
+  constructor(blockEngineUrl: string, options: JitoBlockEngineClientOptions) {
+    if (!blockEngineUrl) throw new Error('Block engine URL is required');
+    this.baseUrl = blockEngineUrl.replace(/\/+$/, '');
+    this.options = options;
+  }
+
+  /**
+   * Submit signed transactions as one atomic bundle
+   * @param transactions Serialized signed transactions
+   * @returns Bundle ID
+   */
+  async sendBundle(transactions: Uint8Array[]): Promise<string> {
+    const encoded = transactions.map(tx => Buffer.from(tx).toString('base64'));
+    return this.call<string>('sendBundle', [encoded, { encoding: 'base64' }]);
+  }
+
+  /**
+   * Statuses of recently submitted bundles (last five minutes)
+   */
+  async getInflightBundleStatuses(bundleIds: string[]): Promise<InflightBundleStatus[]> {
+    const result = await this.call<{ value: InflightBundleStatus[] } | null>('getInflightBundleStatuses', [bundleIds]);
+    return result?.value ?? [];
+  }
+
+  /**
+   * Landed bundles with their transaction signatures; unknown bundles are null
+   */
+  async getBundleStatuses(bundleIds: string[]): Promise<Array<BundleStatusEntry | null>> {
+    const result = await this.call<{ value: Array<BundleStatusEntry | null> } | null>('getBundleStatuses', [bundleIds]);
+    return result?.value ?? [];
+  }
+
+  /**
+   * Tip accounts currently accepted by the block engine
+   */
+  async getTipAccounts(): Promise<string[]> {
+    return this.call<string[]>('getTipAccounts', []);
+  }
+
+  /**
+   * Poll a bundle until it lands, fails, drops out of the engine or the timeout passes
+   * @param bundleId Bundle ID from sendBundle
+   * @param timeoutMs Give up after this long (jito.bundleTimeout)
+   * @param signal Stops polling; the returned promise rejects with the abort reason
+   */
+  async waitForBundle(bundleId: string, timeoutMs: number, signal?: AbortSignal): Promise<BundleOutcome> {
+    const deadline = Date.now() + timeoutMs;
+    let seenPending = false;
+
+    while (Date.now() < deadline) {
+      signal?.throwIfAborted();
+      const [inflight] = await this.getInflightBundleStatuses([bundleId]);
+
+      if (inflight?.status === 'Failed') {
+        return { bundleId, status: 'failed', signatures: [], error: 'Bundle failed in the block engine' };
+      }
+      if (inflight?.status === 'Landed' || inflight?.status === 'Invalid' || !inflight) {
+        // Invalid also covers bundles that already aged out of the inflight window, so check final statuses
+        const [landed] = await this.getBundleStatuses([bundleId]);
+        if (landed) return this.toOutcome(bundleId, landed, inflight?.landed_slot ?? undefined);
+        if (inflight?.status === 'Landed') {
+          return { bundleId, status: 'landed', signatures: [], slot: inflight.landed_slot ?? undefined };
+        }
+        if (seenPending) return { bundleId, status: 'dropped', signatures: [], error: 'Bundle expired without landing' };
+      }
+      if (inflight?.status === 'Pending') seenPending = true;
+
+      await sleep(Math.min(this.options.pollIntervalMs, Math.max(deadline - Date.now(), 0)), undefined, { signal });
+    }
+
+    return { bundleId, status: 'timeout', signatures: [], error: `No final status within ${timeoutMs}ms` };
+  }
+
+  private toOutcome(bundleId: string, entry: BundleStatusEntry, inflightSlot?: number): BundleOutcome {
+    const ok = !entry.err || 'Ok' in entry.err;
+    return {
+      bundleId,
+      status: ok ? 'landed' : 'failed',
+      signatures: entry.transactions,
+      slot: entry.slot ?? inflightSlot,
+      error: ok ? undefined : JSON.stringify(entry.err),
+    };
+  }
+
+  /**
+   * Issue a JSON-RPC request
+   * @throws BlockEngineError on HTTP, transport or JSON-RPC errors
+   */
+  private async call<T>(method: string, params: unknown[]): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${METHOD_PATHS[method] ?? '/api/v1/bundles'}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params }),
+        signal: AbortSignal.timeout(this.options.requestTimeoutMs),
+      });
+    } catch (error) {
+      throw new BlockEngineError(method, (error as Error).message);
+    }
+    if (!response.ok) throw new BlockEngineError(method, `HTTP ${response.status}`, response.status);
+
+    const body = await response.json() as { result?: T; error?: { code: number; message: string } };
+    if (body.error) throw new BlockEngineError(method, body.error.message, body.error.code);
+    return body.result as T;
+  }
+}
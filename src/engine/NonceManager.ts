@@ -0,0 +1,157 @@
+// /src/engine/NonceManager.ts
+// Purpose: Pool of durable nonce accounts owned by the bot wallet, leased to in-flight orders through Redis
+
+import {
+  Commitment,
+  Connection,
+  NONCE_ACCOUNT_LENGTH,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import Redis from 'ioredis';
+import { TransactionSigner } from '../lib/security/TransactionSigner.js';
+
+/**
+ * A nonce account held by one order until it finishes
+ */
+export interface NonceLease {
+  nonceAccount: PublicKey;
+  // Current nonce value; used in place of a recent blockhash for every attempt of the order
+  nonce: string;
+  orderId: string;
+}
+
+export interface NonceManagerOptions {
+  poolSize: number;
+  // Leases expire after this long so a crashed process cannot hold a nonce forever
+  leaseTtlMs: number;
+  commitment: Commitment;
+}
+
+// Nonce accounts are derived from the wallet with these seeds, so the pool can be found again without stored state
+const NONCE_SEED_PREFIX = 'mm-nonce-';
+
+// Seeded create + initialize pairs that fit one 1232-byte transaction (5 serialize to ~1140 bytes, 6 overflow)
+const ACCOUNTS_PER_TRANSACTION = 5;
+
+// Deletes a lease only if it is still held by the same order
+const RELEASE_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`;
+
+/**
+ * NonceManager class creating, loading and leasing durable nonce accounts
+ */
+export class NonceManager {
+  private readonly connection: Connection;
+  private readonly redis: Redis;
+  private readonly signer: TransactionSigner;
+  private readonly options: NonceManagerOptions;
+  private readonly keyPrefix = 'nonce:lease:';
+  private accounts: PublicKey[] = [];
+
+  constructor(connection: Connection, redis: Redis, signer: TransactionSigner, options: NonceManagerOptions) {
+    if (options.poolSize < 1) throw new Error('Nonce pool size must be at least 1');
+    this.connection = connection;
+    this.redis = redis;
+    this.signer = signer;
+    this.options = options;
+  }
+
+  /**
+   * Load the wallet's nonce accounts, creating any that do not exist yet; the signer must be connected
+   */
+  async initialize(): Promise<void> {
+    const authority = this.signer.getPublicKey();
+    const derived = await Promise.all(
+      Array.from({ length: this.options.poolSize }, async (_, index) => {
+        const seed = `${NONCE_SEED_PREFIX}${index}`;
+        return { seed, address: await PublicKey.createWithSeed(authority, seed, SystemProgram.programId) };
+      })
+    );
+
+    const infos = await this.connection.getMultipleAccountsInfo(derived.map(account => account.address), this.options.commitment);
+    const missing = derived.filter((_, index) => !infos[index]);
+    if (missing.length > 0) await this.createAccounts(authority, missing);
+
+    this.accounts = derived.map(account => account.address);
+    console.log(`🔢 Nonce pool ready: ${this.accounts.length} account(s), ${missing.length} created`);
+  }
+
+  /**
+   * Lease a free nonce account for an order
+   * @throws Error when every account is leased
+   */
+  async acquire(orderId: string): Promise<NonceLease> {
+    if (this.accounts.length === 0) throw new Error('Nonce pool not initialized');
+
+    for (const nonceAccount of this.accounts) {
+      const key = `${this.keyPrefix}${nonceAccount.toBase58()}`;
+      const acquired = await this.redis.set(key, orderId, 'PX', this.options.leaseTtlMs, 'NX');
+      if (acquired !== 'OK') continue;
+
+      try {
+        const account = await this.connection.getNonce(nonceAccount, this.options.commitment);
+        if (!account) throw new Error(`Nonce account ${nonceAccount.toBase58()} not found`);
+        return { nonceAccount, nonce: account.nonce, orderId };
+      } catch (error) {
+        await this.redis.eval(RELEASE_SCRIPT, 1, key, orderId);
+        throw error;
+      }
+    }
+    throw new Error(`All ${this.accounts.length} nonce accounts are leased`);
+  }
+
+  /**
+   * Return a nonce account to the pool; a lease that already expired is left alone
+   */
+  async release(lease: NonceLease): Promise<void> {
+    await this.redis.eval(RELEASE_SCRIPT, 1, `${this.keyPrefix}${lease.nonceAccount.toBase58()}`, lease.orderId);
+  }
+
+  /**
+   * First instruction of every transaction that uses the lease
+   */
+  advanceInstruction(lease: NonceLease): TransactionInstruction {
+    return SystemProgram.nonceAdvance({ noncePubkey: lease.nonceAccount, authorizedPubkey: this.signer.getPublicKey() });
+  }
+
+  /**
+   * Advance a leased nonce in a standalone transaction, so nothing signed against its current value can land anymore
+   * Call before releasing a lease whose transactions may still be in flight
+   * @throws Error when the advance does not confirm; the lease must then stay held
+   */
+  async invalidate(lease: NonceLease): Promise<void> {
+    await this.sendAndConfirm(this.signer.getPublicKey(), [this.advanceInstruction(lease)], `Advancing nonce ${lease.nonceAccount.toBase58()}`);
+  }
+
+  private async createAccounts(authority: PublicKey, accounts: Array<{ seed: string; address: PublicKey }>): Promise<void> {
+    const lamports = await this.connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH);
+    for (let start = 0; start < accounts.length; start += ACCOUNTS_PER_TRANSACTION) {
+      const instructions = accounts.slice(start, start + ACCOUNTS_PER_TRANSACTION).flatMap(({ seed, address }) =>
+        SystemProgram.createNonceAccount({
+          fromPubkey: authority,
+          noncePubkey: address,
+          basePubkey: authority,
+          seed,
+          authorizedPubkey: authority,
+          lamports,
+        }).instructions
+      );
+      await this.sendAndConfirm(authority, instructions, 'Nonce account creation');
+    }
+  }
+
+  private async sendAndConfirm(authority: PublicKey, instructions: TransactionInstruction[], action: string): Promise<void> {
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash(this.options.commitment);
+    const transaction = new VersionedTransaction(
+      new TransactionMessage({ payerKey: authority, recentBlockhash: blockhash, instructions }).compileToV0Message()
+    );
+    await this.signer.signTransaction(transaction);
+
+    const signature = await this.connection.sendRawTransaction(transaction.serialize());
+    const { value } = await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, this.options.commitment);
+    if (value.err) throw new Error(`${action} failed: ${JSON.stringify(value.err)}`);
+  }
+}
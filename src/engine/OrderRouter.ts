@@ -1,11 +1,25 @@
 // /src/engine/OrderRouter.ts
 // Purpose: Atomic trade execution with Jito MEV protection and observability
 
-import { Connection, Transaction, Keypair, PublicKey } from '@solana/web3.js';
-import { sendAndConfirmJitoBundle, JitoTipAccount } from '@jito-ts/core';
+import { Connection, PublicKey, SystemProgram, TransactionInstruction, VersionedTransaction } from '@solana/web3.js';
 import { v4 as uuidv4 } from 'uuid';
 import Redis from 'ioredis';
-import { PumpFunAdapter } from '../adapters/PumpFunAdapter.js';
+import bs58 from 'bs58';
+import { BondingCurveCompleteError } from '../adapters/PumpFunAdapter.js';
+import { ExchangeAdapter } from '../interfaces/ExchangeAdapter.js';
+import { VenueSelector } from './VenueSelector.js';
+import { TransactionBuilder } from './TransactionBuilder.js';
+import { JitoBlockEngineClient } from './JitoBlockEngineClient.js';
+import { TipAccountRotation } from './TipAccountRotation.js';
+import { SignedBatch, SubmissionPath, TransactionSubmitter } from './TransactionSubmitter.js';
+import { NonceLease, NonceManager } from './NonceManager.js';
+import { BlockhashPrefetcher } from './BlockhashPrefetcher.js';
+import { ConfirmationTracker, TransactionExpiry } from './ConfirmationTracker.js';
+import { Fill, FillParser, FillReconciliation, reconcileFill } from './FillParser.js';
+import { SimulationError, SimulationResult, TransactionSimulator } from './TransactionSimulator.js';
+import { TOKEN_BASE_UNITS } from '../lib/pumpfun/BondingCurveMath.js';
+import { TransactionSigner } from '../lib/security/TransactionSigner.js';
+import { PolicyViolationError } from '../lib/security/SigningPolicy.js';
 import { BotConfig, BotConfigManager } from '../config/BotConfig.js';
 import { MarketStateManager } from '../state/MarketStateManager.js';
 import { MetricsCollector } from '../monitoring/MetricsCollector.js';
@@ -13,7 +27,7 @@ import { MetricsCollector } from '../monitoring/MetricsCollector.js';
 /**
  * Order request interface
  */
-interface OrderRequest {
+export interface OrderRequest {
   type: 'buy' | 'sell';
   tokenAddress: string;
   amountLamports: number;
@@ -24,27 +38,123 @@ interface OrderRequest {
 /**
  * Order result interface
  */
-interface OrderResult {
+export interface OrderResult {
   success: boolean;
   transactionId?: string;
   error?: string;
   executionTime?: number;
-  bundleMetrics?: { tipAmount: number; slotRange: { minSlot: number; maxSlot: number } };
+  // Venue the order was routed to
+  venue?: string;
+  // Submission path that landed the order
+  landedVia?: SubmissionPath;
+  bundleMetrics?: {
+    // Unset when the order landed via RPC
+    bundleId?: string;
+    landedSlot?: number;
+    tipAmount: number;
+    // Lamports this order's transaction transferred to tipAccount (the last leg carries the bundle tip)
+    tipPaid: number;
+    // Unset when the attempt was submitted via RPC only
+    tipAccount?: string;
+    priorityFee: number;
+    slotRange: { minSlot: number; maxSlot: number };
+  };
+  // Preflight simulation of the last attempt
+  simulation?: OrderSimulation;
+  // What actually executed, read from the confirmed transaction; unset when it could not be fetched
+  fill?: FillReconciliation;
+}
+
+/**
+ * Preflight simulation summary reported with each order
+ */
+interface OrderSimulation {
+  success: boolean;
+  latencyMs: number;
+  unitsConsumed?: number;
+  computeUnitLimit?: number;
+  reason?: string;
+}
+
+/**
+ * Per-attempt Jito tip (lamports) and priority fee (micro-lamports per compute unit)
+ */
+interface AttemptFees {
+  tipAmount: number;
+  computeUnitPrice: number;
+}
+
+/**
+ * How a transaction stays valid: a recent blockhash, or a durable nonce value plus its advance instruction
+ */
+interface TransactionLifetime {
+  recentBlockhash: string;
+  nonceAdvance?: TransactionInstruction;
+  expiry: TransactionExpiry;
+}
+
+/**
+ * Signed transaction for one bundle leg
+ */
+interface PreparedLeg {
+  transaction: VersionedTransaction;
+  venue: string;
+  // Whole tokens the venue quote expects the leg to buy or sell
+  quotedTokens: number;
+  simulation: SimulationResult;
+  expiry: TransactionExpiry;
+}
+
+/**
+ * Signatures of one submitted attempt in leg order, and the tip its last leg carried
+ */
+interface SubmittedAttempt {
+  signatures: string[];
+  quotedTokens: number[];
+  tipLamports: number;
+}
+
+/**
+ * Leg of an earlier attempt found on chain after the bundle was given up
+ */
+interface LandedLeg {
+  signature: string;
+  quotedTokens: number;
+  tipPaid: number;
+}
+
+/**
+ * Outcome of an atomic bundle with one result per order, in request order
+ */
+export interface BundleResult {
+  success: boolean;
+  bundleId?: string;
+  landedVia?: SubmissionPath;
+  landedSlot?: number;
+  error?: string;
+  executionTime: number;
+  legs: OrderResult[];
 }
 
 /**
  * OrderRouter configuration
  */
-interface OrderRouterConfig {
+export interface OrderRouterConfig {
   solanaConnection: Connection;
   redisClient: Redis;
-  pumpFunAdapter: PumpFunAdapter;
-  jitoTipAccount: JitoTipAccount;
+  // Signs orders and pays fees; connected by the caller before routing
+  signer: TransactionSigner;
+  // Trading venues, quoted per order to pick the best available one
+  adapters: ExchangeAdapter[];
   circuitBreakerThreshold: number;
   circuitBreakerTimeout: number;
   tipLamports: number;
   maxRetries: number;
   bundleTimeout: number;
+  // Durable nonces for every leg when set; otherwise each attempt uses a fresh blockhash
+  nonceManager?: NonceManager;
+  // Prefetched blockhash and slot, started by the caller
+  chainState: BlockhashPrefetcher;
 }
 
 /**
@@ -55,76 +165,204 @@ export class OrderRouter {
   private readonly botConfig: BotConfig;
   private readonly marketStateManager: MarketStateManager;
   private readonly metricsCollector: MetricsCollector;
-  private readonly nonceAccount: Keypair;
   private circuitBreakerActive: boolean = false;
   private lastBundleSentAt: number = 0;
   private recentTips: number[] = [];
+  private readonly venueSelector: VenueSelector;
+  private readonly transactionBuilder: TransactionBuilder;
+  private readonly transactionSimulator: TransactionSimulator;
+  private readonly blockEngine: JitoBlockEngineClient;
+  private readonly tipAccounts: TipAccountRotation;
+  private readonly submitter: TransactionSubmitter;
+  private readonly fillParser: FillParser;
 
   constructor(
     config: OrderRouterConfig,
-    pumpAdapter: PumpFunAdapter,
-    connection: Connection,
+    pumpAdapter: ExchangeAdapter,
     redis: Redis
   ) {
     this.config = config;
     this.botConfig = BotConfigManager.getInstance().getConfig();
-    this.marketStateManager = new MarketStateManager(redis, connection);
+    this.marketStateManager = new MarketStateManager(redis);
     this.metricsCollector = new MetricsCollector(redis);
-    this.nonceAccount = Keypair.generate(); // Simplified; use a real nonce account in production
+    this.metricsCollector.setBlockhashAgeSource(() => config.chainState.ageMs());
+    this.venueSelector = new VenueSelector(config.adapters.length > 0 ? config.adapters : [pumpAdapter]);
+    this.transactionBuilder = new TransactionBuilder(
+      config.solanaConnection,
+      this.botConfig.solana.lookupTables.map(address => new PublicKey(address))
+    );
+    this.transactionSimulator = new TransactionSimulator(config.solanaConnection, {
+      headroom: this.botConfig.solana.computeUnitHeadroom,
+      fallbackComputeUnitLimit: this.botConfig.solana.computeUnitLimit,
+    });
+    this.blockEngine = new JitoBlockEngineClient(this.botConfig.jito.blockEngineUrl, {
+      requestTimeoutMs: this.botConfig.solana.connectionTimeout,
+      pollIntervalMs: this.botConfig.jito.statusPollInterval,
+    });
+    this.tipAccounts = new TipAccountRotation(this.blockEngine);
+    const tracker = new ConfirmationTracker(config.solanaConnection, {
+      commitment: this.botConfig.solana.commitment,
+      pollIntervalMs: this.botConfig.jito.statusPollInterval,
+      rebroadcastIntervalMs: this.botConfig.solana.rebroadcastInterval,
+      maxTrackingMs: this.botConfig.solana.confirmationTimeout,
+    });
+    this.submitter = new TransactionSubmitter(config.solanaConnection, this.blockEngine, tracker, {
+      mode: this.botConfig.jito.submissionMode,
+      failoverThreshold: this.botConfig.jito.failoverThreshold,
+      failoverCooldownMs: this.botConfig.jito.failoverCooldown,
+      timeoutMs: config.bundleTimeout,
+    });
+    this.fillParser = new FillParser(config.solanaConnection, {
+      // getTransaction does not serve processed transactions
+      commitment: this.botConfig.solana.commitment === 'finalized' ? 'finalized' : 'confirmed',
+      fetchAttempts: 5,
+      fetchRetryDelayMs: this.botConfig.jito.statusPollInterval,
+    });
     this.recentTips = [this.botConfig.jito.tipLamports];
     console.log('📡 OrderRouter initialized with Jito optimization');
   }
 
+  /**
+   * Stop routing a graduated token to the bonding curve
+   * @param tokenAddress Token whose bonding curve completed
+   */
+  markGraduated(tokenAddress: string): void {
+    this.venueSelector.disableVenue(tokenAddress, 'pumpfun');
+    console.log(`🎓 Routing ${tokenAddress} away from the bonding curve`);
+  }
+
   /**
    * Execute an order with Jito bundle and retry logic
    * @param request Order request details
    * @returns Order result with execution details
    */
   async executeOrder(request: OrderRequest): Promise<OrderResult> {
+    const { legs } = await this.executeBundle([request]);
+    return legs[0]!;
+  }
+
+  /**
+   * Execute up to jito.maxBundleSize orders as one atomic bundle; either every leg lands or none does
+   * Each leg is quoted and simulated on its own against current chain state, so no leg may rely on an earlier one's
+   * output: a bundle that sells a token it buys in an earlier leg is rejected, and a buy must be affordable without
+   * the proceeds of a sell before it
+   * @param requests Orders in execution order, e.g. a rebalance sell followed by a buy
+   * @returns Bundle outcome with per-leg results
+   */
+  async executeBundle(requests: OrderRequest[]): Promise<BundleResult> {
     const startTime = Date.now();
     let attempt = 0;
     const maxAttempts = this.botConfig.solana.maxRetries + 1;
-    const orderId = uuidv4();
+    const maxBundleSize = this.botConfig.jito.maxBundleSize;
+    const orderIds = requests.map(() => uuidv4());
+    const graduatedTokens = new Set<string>();
+    // Leg whose preparation threw, so a simulation failure is reported on the right order
+    let failedLeg: number | undefined;
+    // Held for the whole retry sequence: every attempt reuses the same nonce, so at most one can land
+    const nonceLeases: NonceLease[] = [];
+    // Nonces that could not be advanced after a failure; an attempt may still land on them, so they stay leased until expiry
+    let heldLeases: NonceLease[] = [];
+    const submittedAttempts: SubmittedAttempt[] = [];
 
     try {
+      if (requests.length === 0 || requests.length > maxBundleSize) {
+        throw new Error(`Bundle must contain 1-${maxBundleSize} orders, got ${requests.length}`);
+      }
+      const boughtEarlier = new Set<string>();
+      for (const request of requests) {
+        if (request.type === 'sell' && boughtEarlier.has(request.tokenAddress)) {
+          throw new Error(`Bundle sells ${request.tokenAddress} after buying it; legs are simulated independently and cannot depend on earlier legs`);
+        }
+        if (request.type === 'buy') boughtEarlier.add(request.tokenAddress);
+      }
       await this.checkCircuitBreaker();
+      const { nonceManager } = this.config;
+      if (nonceManager) {
+        for (const orderId of orderIds) nonceLeases.push(await nonceManager.acquire(orderId));
+      }
 
       while (attempt < maxAttempts) {
         attempt++;
-        console.log(\`⚡ Executing \${request.type} order for \${request.amountLamports / 1_000_000_000} SOL, attempt \${attempt}\`);
+        const summary = requests.map(r => `${r.type} ${r.amountLamports / 1_000_000_000} SOL`).join(', ');
+        console.log(`⚡ Executing bundle [${summary}], attempt ${attempt}`);
 
         try {
-          const { transaction, signers } = await this.prepareTransaction(request);
-          const bundle = await this.buildJitoBundle(transaction, signers, attempt);
-          const bundleId = await sendAndConfirmJitoBundle(
-            this.config.solanaConnection,
-            bundle.transactions.map(tx => tx.transaction),
-            this.config.jitoTipAccount,
-            { commitment: 'confirmed' }
-          );
-
-          const result = await this.monitorBundle(bundleId);
+          const fees = this.calculateAttemptFees(attempt, Math.max(...requests.map(r => r.volatilityFactor ?? 1)));
+          const lifetimes = this.resolveLifetimes(requests.length, nonceLeases);
+          const paths = this.submitter.plan(requests.length);
+          // RPC-only attempts skip the tip; it buys nothing outside a bundle
+          const tipAccount = paths.includes('jito') ? await this.tipAccounts.next() : undefined;
+          const tipLamports = tipAccount ? fees.tipAmount : 0;
+
+          const prepared: PreparedLeg[] = [];
+          for (const [index, request] of requests.entries()) {
+            failedLeg = index;
+            const tip = tipAccount && index === requests.length - 1 ? { account: tipAccount, lamports: tipLamports } : undefined;
+            prepared.push(await this.prepareTransaction(request, fees.computeUnitPrice, lifetimes[index]!, tip));
+          }
+          failedLeg = undefined;
+
+          const bundle = this.buildJitoBundle(prepared, fees);
+          submittedAttempts.push({ signatures: bundle.signatures, quotedTokens: prepared.map(leg => leg.quotedTokens), tipLamports });
+          const result = await this.submitter.submit(bundle, paths);
           const executionTime = Date.now() - startTime;
 
-          await this.updateMarketState(request, request.amountLamports);
-          await this.metricsCollector.recordTrade({
-            success: true,
-            transactionId: result.transactionId,
-            executionTime,
-            slippageAchieved: request.maxSlippageBps / 10000,
-          });
+          const legs: OrderResult[] = [];
+          for (const [index, request] of requests.entries()) {
+            const leg = prepared[index]!;
+            const transactionId = result.signatures[index]!;
+            const tipPaid = index === requests.length - 1 ? tipLamports : 0;
 
-          console.log(\`✅ Order executed in \${executionTime}ms | TxID: \${result.transactionId.slice(0, 8)}...\`);
+            const fill = await this.recordLandedLeg(request, transactionId, tipPaid, leg.quotedTokens, executionTime, result.landedVia);
+            legs.push({
+              success: true,
+              transactionId,
+              executionTime,
+              venue: leg.venue,
+              landedVia: result.landedVia,
+              bundleMetrics: {
+                bundleId: result.bundleId,
+                landedSlot: result.slot,
+                tipAmount: tipLamports,
+                tipPaid,
+                tipAccount: tipAccount?.toBase58(),
+                priorityFee: bundle.priorityFee,
+                slotRange: { minSlot: bundle.minSlot, maxSlot: bundle.maxSlot },
+              },
+              simulation: {
+                success: true,
+                latencyMs: leg.simulation.latencyMs,
+                unitsConsumed: leg.simulation.unitsConsumed,
+                computeUnitLimit: leg.simulation.computeUnitLimit,
+              },
+              fill,
+            });
+          }
+
+          console.log(`✅ Bundle of ${legs.length} executed via ${result.landedVia} in ${executionTime}ms | TxID: ${legs[0]!.transactionId!.slice(0, 8)}...`);
           return {
             success: true,
-            transactionId: result.transactionId,
+            bundleId: result.bundleId,
+            landedVia: result.landedVia,
+            landedSlot: result.slot,
             executionTime,
-            bundleMetrics: {
-              tipAmount: bundle.transactions[0].tipAmount,
-              slotRange: { minSlot: bundle.minSlot, maxSlot: bundle.maxSlot },
-            },
+            legs,
           };
         } catch (error) {
+          // Graduation is a venue change, not a failed attempt
+          if (error instanceof BondingCurveCompleteError && !graduatedTokens.has(error.tokenAddress)) {
+            this.markGraduated(error.tokenAddress);
+            graduatedTokens.add(error.tokenAddress);
+            attempt--;
+            continue;
+          }
+          // The same order would be rejected or fail again; stop before paying for retries
+          if (error instanceof PolicyViolationError) throw error;
+          if (error instanceof SimulationError && error.deterministic) throw error;
+          // Only a landed transaction advances a leased nonce, so an earlier attempt went through; it is looked up below
+          if (nonceLeases.length > 0 && error instanceof SimulationError && error.reason === 'blockhash_not_found') {
+            throw new Error('Durable nonce already advanced by an earlier attempt of this bundle');
+          }
           await this.handleBundleError(error as Error, attempt, maxAttempts);
           if (attempt === maxAttempts) throw error;
         }
@@ -133,82 +371,219 @@ export class OrderRouter {
       throw new Error('Max retries exceeded');
     } catch (error) {
       const executionTime = Date.now() - startTime;
-      const result: OrderResult = {
-        success: false,
-        error: (error as Error).message,
-        executionTime,
-      };
-      await this.metricsCollector.recordTrade({
-        success: false,
-        transactionId: orderId,
-        executionTime,
-        slippageAchieved: request.maxSlippageBps / 10000,
-      });
-      console.error(\`❌ Order failed: \${result.error}\`);
-      return result;
+      const message = (error as Error).message;
+      // Attempts signed on a leased nonce stay valid until it advances, and one of them may have landed after all
+      let landed: Array<LandedLeg | undefined> = [];
+      if (nonceLeases.length > 0 && submittedAttempts.length > 0) {
+        ({ landed, heldLeases } = await this.settleNonceAttempts(submittedAttempts, nonceLeases));
+      }
+
+      const legs: OrderResult[] = [];
+      for (const [index, request] of requests.entries()) {
+        const landedLeg = landed[index];
+        if (landedLeg) {
+          const fill = await this.recordLandedLeg(request, landedLeg.signature, landedLeg.tipPaid, landedLeg.quotedTokens, executionTime);
+          legs.push({ success: true, transactionId: landedLeg.signature, executionTime, fill });
+          continue;
+        }
+        legs.push({
+          success: false,
+          error: message,
+          executionTime,
+          simulation: error instanceof SimulationError && index === failedLeg
+            ? { success: false, latencyMs: error.latencyMs, reason: error.reason }
+            : undefined,
+        });
+        await this.metricsCollector.recordTrade({
+          success: false,
+          transactionId: orderIds[index]!,
+          executionTime,
+          slippageAchieved: request.maxSlippageBps / 10000,
+        });
+      }
+      if (legs.every(leg => leg.success)) {
+        console.log(`✅ Bundle of ${legs.length} landed on an earlier attempt | TxID: ${legs[0]!.transactionId!.slice(0, 8)}...`);
+        return { success: true, executionTime, legs };
+      }
+      console.error(`❌ Bundle failed: ${message}`);
+      return { success: false, error: message, executionTime, legs };
+    } finally {
+      const releasable = nonceLeases.filter(lease => !heldLeases.includes(lease));
+      await Promise.all(releasable.map(lease => this.config.nonceManager!.release(lease).catch(error =>
+        console.error(`❌ Failed to release nonce ${lease.nonceAccount.toBase58()}: ${(error as Error).message}`)
+      )));
+    }
+  }
+
+  /**
+   * Advance every leased nonce so no attempt still in flight can land later, then look up which legs an earlier attempt landed
+   * @returns Landed leg per request index, and the leases whose nonce could not be advanced
+   */
+  private async settleNonceAttempts(
+    attempts: SubmittedAttempt[],
+    leases: NonceLease[]
+  ): Promise<{ landed: Array<LandedLeg | undefined>; heldLeases: NonceLease[] }> {
+    const nonceManager = this.config.nonceManager!;
+    const heldLeases: NonceLease[] = [];
+    await Promise.all(leases.map(async lease => {
+      try {
+        await nonceManager.invalidate(lease);
+      } catch (error) {
+        heldLeases.push(lease);
+        console.error(`❌ Could not advance nonce ${lease.nonceAccount.toBase58()}, holding it until the lease expires: ${(error as Error).message}`);
+      }
+    }));
+
+    const landed: Array<LandedLeg | undefined> = [];
+    try {
+      const signatures = attempts.flatMap(attempt => attempt.signatures);
+      const { value: statuses } = await this.config.solanaConnection.getSignatureStatuses(signatures, { searchTransactionHistory: true });
+      let offset = 0;
+      for (const { signatures: attemptSignatures, quotedTokens, tipLamports } of attempts) {
+        for (const [index, signature] of attemptSignatures.entries()) {
+          const status = statuses[offset + index];
+          if (status && !status.err) {
+            landed[index] = { signature, quotedTokens: quotedTokens[index]!, tipPaid: index === attemptSignatures.length - 1 ? tipLamports : 0 };
+          }
+        }
+        offset += attemptSignatures.length;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not look up earlier attempts: ${(error as Error).message}`);
     }
+    return { landed, heldLeases };
   }
 
   /**
-   * Prepare a transaction for the order
+   * Lifetime per leg: the leased nonce when durable nonces are enabled, otherwise the prefetched blockhash
    */
-  private async prepareTransaction(request: OrderRequest): Promise<{ transaction: Transaction; signers: Keypair[] }> {
-    const { tokenAddress, amountLamports, maxSlippageBps, volatilityFactor = 1 } = request;
-    const slippageAdjustedAmount = amountLamports * (1 - (maxSlippageBps / 10000));
+  private resolveLifetimes(legCount: number, nonceLeases: NonceLease[]): TransactionLifetime[] {
+    const { nonceManager } = this.config;
+    if (nonceManager && nonceLeases.length > 0) {
+      return nonceLeases.map(lease => ({
+        recentBlockhash: lease.nonce,
+        nonceAdvance: nonceManager.advanceInstruction(lease),
+        expiry: { nonceAccount: lease.nonceAccount, nonce: lease.nonce },
+      }));
+    }
+    const { blockhash, lastValidBlockHeight } = this.config.chainState.current();
+    return Array.from({ length: legCount }, () => ({ recentBlockhash: blockhash, expiry: { lastValidBlockHeight } }));
+  }
 
-    let transaction: Transaction;
-    const signers: Keypair[] = [this.nonceAccount];
+  /**
+   * Prepare, simulate and sign a v0 transaction for one order
+   * The compute-unit limit is sized from the simulation before signing
+   * @param computeUnitPrice Priority fee for this attempt in micro-lamports per compute unit
+   * @param lifetime Blockhash or durable nonce the transaction is built on
+   * @param tip Jito tip transfer appended to this transaction (the bundle's last leg only)
+   */
+  private async prepareTransaction(
+    request: OrderRequest,
+    computeUnitPrice: number,
+    lifetime: TransactionLifetime,
+    tip?: { account: PublicKey; lamports: number }
+  ): Promise<PreparedLeg> {
+    const { tokenAddress, amountLamports, maxSlippageBps } = request;
+    // Slippage only widens the min-out/max-cost bounds the adapters derive; the order size stays as requested
+    const amountSol = amountLamports / 1_000_000_000;
+    const slippage = maxSlippageBps / 10000;
 
+    let instructions: TransactionInstruction[];
+    let adapter: ExchangeAdapter;
+    let quotedTokens: number;
     if (request.type === 'buy') {
-      transaction = await this.config.pumpFunAdapter.createBuyTransaction(
-        tokenAddress,
-        slippageAdjustedAmount / 1_000_000_000, // Convert lamports to SOL
-        maxSlippageBps / 10000
-      );
+      const selection = await this.venueSelector.select('buy', tokenAddress, amountSol, slippage);
+      adapter = selection.adapter;
+      quotedTokens = Number(selection.quote.amountOut) / Number(TOKEN_BASE_UNITS);
+      instructions = await adapter.createBuyInstructions(tokenAddress, amountSol, slippage);
     } else {
-      transaction = await this.config.pumpFunAdapter.createSellTransaction(
-        tokenAddress,
-        slippageAdjustedAmount / 1_000_000_000,
-        maxSlippageBps / 10000
-      );
+      // Sells are sized in tokens: the SOL amount is converted at the chosen venue's price
+      const selection = await this.venueSelector.selectSell(tokenAddress, amountSol, slippage);
+      adapter = selection.adapter;
+      quotedTokens = selection.amountTokens;
+      instructions = await adapter.createSellInstructions(tokenAddress, quotedTokens, slippage);
+    }
+
+    const payer = this.config.signer.getPublicKey();
+    if (tip) {
+      instructions = [...instructions, SystemProgram.transfer({ fromPubkey: payer, toPubkey: tip.account, lamports: tip.lamports })];
     }
 
-    transaction.recentBlockhash = (await this.config.solanaConnection.getLatestBlockhash()).blockhash;
-    transaction.feePayer = this.nonceAccount.publicKey;
-await this.hsm.connect();
-await this.hsm.signTransaction(transaction);
+    const { expiry, ...validity } = lifetime;
+    const buildParams = { payer, instructions, computeUnitPrice, ...validity };
+    const draft = await this.transactionBuilder.build({ ...buildParams, computeUnitLimit: this.botConfig.solana.computeUnitLimit });
+    const simulation = await this.simulate(draft, tokenAddress);
+
+    const transaction = await this.transactionBuilder.build({ ...buildParams, computeUnitLimit: simulation.computeUnitLimit });
+    // Refuse to sign against a stale view of the chain
+    this.config.chainState.current();
+    await this.config.signer.signTransaction(transaction);
 
-    return { transaction, signers };
+    return { transaction, venue: adapter.venue, quotedTokens, simulation, expiry };
   }
 
   /**
-   * Build a Jito bundle with optimized tips
+   * Run the preflight simulation and record its outcome
    */
-  private async buildJitoBundle(
-    transaction: Transaction,
-    signers: Keypair[],
-    attempt: number
-  ): Promise<{ transactions: Array<{ transaction: Buffer; signers: Keypair[]; tipAmount: number; priorityFee: number }>; minSlot: number; maxSlot: number }> {
-import { HardwareSecurityModule } from "../lib/security/HardwareSecurityModule";
-private hsm = new HardwareSecurityModule();
-    const tipMultiplier = Math.min(attempt * 0.5, 3); // 50% increase per retry
-    const baseTip = this.calculateDynamicTip(request.volatilityFactor || 1);
-    const optimizedTip = Math.floor(baseTip * tipMultiplier);
-
-    console.log(\`🏷️ Calculated dynamic tip: \${optimizedTip} lamports\`);
+  private async simulate(transaction: VersionedTransaction, tokenAddress: string): Promise<SimulationResult> {
+    try {
+      const simulation = await this.transactionSimulator.simulate(transaction);
+      await this.metricsCollector.recordSimulation({
+        success: true,
+        latencyMs: simulation.latencyMs,
+        unitsConsumed: simulation.unitsConsumed,
+      });
+      console.log(`🧪 Simulation used ${simulation.unitsConsumed} CU, limit set to ${simulation.computeUnitLimit} (${simulation.latencyMs}ms)`);
+      return simulation;
+    } catch (error) {
+      if (error instanceof SimulationError) {
+        await this.metricsCollector.recordSimulation({ success: false, latencyMs: error.latencyMs, reason: error.reason });
+        // The curve completed since the quote; reroute like any other graduation
+        if (error.reason === 'curve_complete') throw new BondingCurveCompleteError(tokenAddress);
+      }
+      throw error;
+    }
+  }
 
+  /**
+   * Serialize signed transactions for submission as one bundle
+   */
+  private buildJitoBundle(
+    legs: PreparedLeg[],
+    fees: AttemptFees
+  ): SignedBatch & { tipAmount: number; priorityFee: number; minSlot: number; maxSlot: number } {
+    const { slot } = this.config.chainState.current();
     return {
-      transactions: [{
-        transaction: transaction.serialize({ requireAllSignatures: false }),
-        signers,
-        tipAmount: optimizedTip,
-        priorityFee: optimizedTip,
-      }],
-      minSlot: await this.config.solanaConnection.getSlot(),
-      maxSlot: (await this.config.solanaConnection.getSlot()) + 10,
+      transactions: legs.map(leg => Buffer.from(leg.transaction.serialize())),
+      signatures: legs.map(leg => bs58.encode(leg.transaction.signatures[0]!)),
+      expiries: legs.map(leg => leg.expiry),
+      tipAmount: fees.tipAmount,
+      priorityFee: fees.computeUnitPrice,
+      minSlot: slot,
+      maxSlot: slot + 10,
     };
   }
 
+  /**
+   * Tip and priority fee for an attempt; both escalate on retries within the configured tip bounds
+   */
+  private calculateAttemptFees(attempt: number, volatilityFactor: number = 1): AttemptFees {
+    const tipMultiplier = Math.min(attempt * 0.5, 3); // 50% increase per retry
+    const { minTipLamports, maxTipLamports } = this.botConfig.jito;
+    const tipAmount = Math.min(
+      Math.max(Math.floor(this.calculateDynamicTip(volatilityFactor) * tipMultiplier), minTipLamports),
+      maxTipLamports
+    );
+    // Match the tip with priority fees spread over the compute budget, up to the configured ceiling
+    const computeUnitPrice = Math.min(
+      Math.floor((tipAmount * 1_000_000) / this.botConfig.solana.computeUnitLimit),
+      this.botConfig.solana.maxPriorityFeeMicroLamports
+    );
+
+    console.log(`🏷️ Calculated dynamic tip: ${tipAmount} lamports, priority fee ${computeUnitPrice} µlamports/CU`);
+    return { tipAmount, computeUnitPrice };
+  }
+
   /**
    * Calculate dynamic tip using EMA of recent tips
    */
@@ -240,7 +615,7 @@ private hsm = new HardwareSecurityModule();
    * Handle bundle errors with exponential backoff
    */
   private async handleBundleError(error: Error, attempt: number, maxAttempts: number): Promise<void> {
-    console.error(\`Bundle attempt \${attempt}/\${maxAttempts} failed: \${error.message}\`);
+    console.error(`Bundle attempt ${attempt}/${maxAttempts} failed: ${error.message}`);
 
     if (attempt >= maxAttempts) {
       await this.config.redisClient.incr('circuit_breaker_error_count');
@@ -256,30 +631,69 @@ private hsm = new HardwareSecurityModule();
   }
 
   /**
-   * Monitor Jito bundle confirmation
+   * Reconcile a landed leg's fill, then update the position and trade metrics with it
    */
-  private async monitorBundle(bundleId: string): Promise<{ transactionId: string }> {
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => 
-        reject(new Error('Bundle monitoring timeout')), 
-        this.config.bundleTimeout
-      );
-
-      // Simulate monitoring (replace with real Jito SDK listener in production)
-      setTimeout(() => {
-        clearTimeout(timeout);
-        resolve({ transactionId: bundleId });
-      }, 100);
+  private async recordLandedLeg(
+    request: OrderRequest,
+    transactionId: string,
+    tipPaid: number,
+    quotedTokens: number,
+    executionTime: number,
+    landedVia?: SubmissionPath
+  ): Promise<FillReconciliation | undefined> {
+    const fill = await this.reconcileLeg(request, transactionId, tipPaid);
+    await this.updateMarketState(request, fill?.fill, quotedTokens);
+    await this.metricsCollector.recordTrade({
+      success: true,
+      transactionId,
+      executionTime,
+      slippageAchieved: fill ? Math.abs(fill.deviationBps) / 10000 : request.maxSlippageBps / 10000,
+      tipPaid,
+      landedVia,
+      fillMismatch: fill?.mismatch,
+      filledLamports: fill?.fill.solLamports,
     });
+    return fill;
+  }
+
+  /**
+   * Read what a landed order actually executed and compare it with the amount it was built for
+   * The order already landed, so a fill that cannot be read is logged rather than failing it
+   */
+  private async reconcileLeg(request: OrderRequest, signature: string, tipPaid: number): Promise<FillReconciliation | undefined> {
+    let reconciliation: FillReconciliation;
+    try {
+      const fill = await this.fillParser.parse(signature, {
+        side: request.type,
+        wallet: this.config.signer.getPublicKey(),
+        tokenAddress: request.tokenAddress,
+        tipLamports: tipPaid,
+      });
+      reconciliation = reconcileFill(fill, request.type, request.amountLamports, request.maxSlippageBps);
+    } catch (error) {
+      console.warn(`⚠️ Could not read fill for ${signature.slice(0, 8)}..., using requested amount: ${(error as Error).message}`);
+      return undefined;
+    }
+
+    const { fill, deviationBps, mismatch } = reconciliation;
+    if (mismatch) {
+      console.warn(`⚠️ Fill mismatch on ${signature.slice(0, 8)}...: ${request.type} ${fill.solLamports / 1_000_000_000} SOL for ${fill.tokenAmount} tokens, ${deviationBps} bps from request`);
+    } else {
+      console.log(`🧾 Filled ${request.type} of ${fill.tokenAmount} tokens for ${fill.solLamports / 1_000_000_000} SOL @ ${fill.effectivePrice}`);
+    }
+    return reconciliation;
   }
 
   /**
    * Update market state after a successful trade
+   * @param fill What the trade actually moved; the requested SOL and quoted tokens stand in when it is unknown
    */
-  private async updateMarketState(request: OrderRequest, amountLamports: number): Promise<void> {
-    const amount = request.type === 'buy' ? amountLamports / 1_000_000_000 : -(amountLamports / 1_000_000_000);
-    await this.marketStateManager.updatePosition(request.tokenAddress, amount);
+  private async updateMarketState(request: OrderRequest, fill: Fill | undefined, quotedTokens: number): Promise<void> {
+    const direction = request.type === 'buy' ? 1 : -1;
+    const amount = direction * (fill?.solLamports ?? request.amountLamports) / 1_000_000_000;
+    const tokens = direction * (fill ? Number(fill.tokenAmount) / 10 ** fill.tokenDecimals : quotedTokens);
+    await this.marketStateManager.updatePosition(request.tokenAddress, amount, tokens);
     await this.marketStateManager.updateLiquidity(request.tokenAddress, amount);
-    console.log(\`📈 Updated market position: +\${amount} SOL\`);
+    console.log(`📈 Updated market position: ${amount} SOL, ${tokens} tokens`);
   }
 }
@@ -0,0 +1,49 @@
+// /src/engine/TipAccountRotation.ts
+// Purpose: Picks a random Jito tip account per bundle from the block engine's current list
+
+import { PublicKey } from '@solana/web3.js';
+import { JitoBlockEngineClient } from './JitoBlockEngineClient.js';
+import { JITO_TIP_ACCOUNTS } from '../lib/security/SigningPolicy.js';
+
+/**
+ * TipAccountRotation class spreading tips across tip accounts to avoid write-lock contention
+ */
+export class TipAccountRotation {
+  private readonly blockEngine: Pick<JitoBlockEngineClient, 'getTipAccounts'>;
+  private readonly refreshIntervalMs: number;
+  private readonly random: () => number;
+  private accounts: readonly PublicKey[] = JITO_TIP_ACCOUNTS;
+  private refreshedAt = 0;
+
+  constructor(
+    blockEngine: Pick<JitoBlockEngineClient, 'getTipAccounts'>,
+    refreshIntervalMs: number = 10 * 60 * 1000,
+    random: () => number = Math.random
+  ) {
+    this.blockEngine = blockEngine;
+    this.refreshIntervalMs = refreshIntervalMs;
+    this.random = random;
+  }
+
+  /**
+   * Random tip account, refreshing the list from the block engine when it is stale
+   */
+  async next(): Promise<PublicKey> {
+    if (Date.now() - this.refreshedAt >= this.refreshIntervalMs) await this.refresh();
+    return this.accounts[Math.floor(this.random() * this.accounts.length)] ?? JITO_TIP_ACCOUNTS[0]!;
+  }
+
+  /**
+   * Only accounts the signing policy recognises as tip accounts are kept; the rest would be rejected at signing
+   */
+  private async refresh(): Promise<void> {
+    this.refreshedAt = Date.now();
+    try {
+      const known = new Set(JITO_TIP_ACCOUNTS.map(account => account.toBase58()));
+      const accounts = (await this.blockEngine.getTipAccounts()).filter(account => known.has(account));
+      if (accounts.length > 0) this.accounts = accounts.map(account => new PublicKey(account));
+    } catch (error) {
+      console.warn(`⚠️ Failed to refresh Jito tip accounts, keeping ${this.accounts.length}: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+// /src/engine/TransactionBuilder.ts
+// Purpose: Compiles order instructions into v0 transactions with compute budget and optional lookup tables
+
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+
+/**
+ * Inputs for a single order transaction
+ */
+export interface BuildTransactionParams {
+  payer: PublicKey;
+  instructions: TransactionInstruction[];
+  recentBlockhash: string;
+  computeUnitLimit: number;
+  // Priority fee in micro-lamports per compute unit
+  computeUnitPrice: number;
+  // Durable nonce advance; recentBlockhash must then be the nonce value
+  nonceAdvance?: TransactionInstruction;
+}
+
+/**
+ * TransactionBuilder class producing unsigned VersionedTransactions
+ */
+export class TransactionBuilder {
+  private readonly connection: Connection;
+  private readonly lookupTableAddresses: PublicKey[];
+  private lookupTables: Promise<AddressLookupTableAccount[]> | null = null;
+
+  constructor(connection: Connection, lookupTableAddresses: PublicKey[] = []) {
+    if (!connection) throw new Error('Solana connection is required');
+    this.connection = connection;
+    this.lookupTableAddresses = lookupTableAddresses;
+  }
+
+  /**
+   * Build an unsigned v0 transaction; compute budget instructions come first, after the nonce advance if any
+   */
+  async build(params: BuildTransactionParams): Promise<VersionedTransaction> {
+    if (params.instructions.length === 0) throw new Error('Transaction has no instructions');
+
+    const message = new TransactionMessage({
+      payerKey: params.payer,
+      recentBlockhash: params.recentBlockhash,
+      instructions: [
+        ...(params.nonceAdvance ? [params.nonceAdvance] : []),
+        ComputeBudgetProgram.setComputeUnitLimit({ units: Math.ceil(params.computeUnitLimit) }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: Math.floor(params.computeUnitPrice) }),
+        ...params.instructions,
+      ],
+    }).compileToV0Message(await this.getLookupTables());
+
+    return new VersionedTransaction(message);
+  }
+
+  /**
+   * Drop cached lookup tables so the next build refetches them (e.g. after a table is extended)
+   */
+  refreshLookupTables(): void {
+    this.lookupTables = null;
+  }
+
+  private getLookupTables(): Promise<AddressLookupTableAccount[]> {
+    if (this.lookupTableAddresses.length === 0) return Promise.resolve([]);
+    this.lookupTables ??= this.loadLookupTables().catch(error => {
+      this.lookupTables = null;
+      throw error;
+    });
+    return this.lookupTables;
+  }
+
+  private async loadLookupTables(): Promise<AddressLookupTableAccount[]> {
+    const tables = await Promise.all(this.lookupTableAddresses.map(async address => {
+      const { value } = await this.connection.getAddressLookupTable(address);
+      if (!value) throw new Error(`Address lookup table ${address.toBase58()} not found`);
+      return value;
+    }));
+    console.log(`📇 Loaded ${tables.length} address lookup table(s)`);
+    return tables;
+  }
+}
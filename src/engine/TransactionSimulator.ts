@@ -0,0 +1,131 @@
+// /src/engine/TransactionSimulator.ts
+// Purpose: Preflight-simulates order transactions to size compute units and stop doomed submissions early
+
+import { Commitment, Connection, TransactionError, VersionedTransaction } from '@solana/web3.js';
+
+export type SimulationFailureReason =
+  | 'slippage'
+  | 'insufficient_funds'
+  | 'account_not_found'
+  | 'curve_complete'
+  | 'blockhash_not_found'
+  | 'compute_exceeded'
+  | 'program_error'
+  | 'rpc_error';
+
+// Failures that will recur on resubmission with the same order
+const DETERMINISTIC_REASONS = new Set<SimulationFailureReason>([
+  'slippage',
+  'insufficient_funds',
+  'account_not_found',
+  'curve_complete',
+]);
+
+// Program log patterns, checked in order; Pump.fun and PumpSwap surface Anchor error names
+const LOG_PATTERNS: Array<[RegExp, SimulationFailureReason]> = [
+  [/TooMuchSolRequired|TooLittleSolReceived|ExceededSlippage|slippage/i, 'slippage'],
+  [/insufficient (funds|lamports)|InsufficientFunds/i, 'insufficient_funds'],
+  [/BondingCurveComplete/i, 'curve_complete'],
+  [/exceeded CUs meter|ComputationalBudgetExceeded/i, 'compute_exceeded'],
+];
+
+/**
+ * Simulation failure carrying program logs and whether retrying can help
+ */
+export class SimulationError extends Error {
+  readonly reason: SimulationFailureReason;
+  readonly deterministic: boolean;
+  readonly logs: string[];
+  readonly latencyMs: number;
+
+  constructor(reason: SimulationFailureReason, message: string, logs: string[], latencyMs: number) {
+    super(message);
+    this.name = 'SimulationError';
+    this.reason = reason;
+    this.deterministic = DETERMINISTIC_REASONS.has(reason);
+    this.logs = logs;
+    this.latencyMs = latencyMs;
+  }
+}
+
+/**
+ * Successful simulation with the compute-unit limit to use
+ */
+export interface SimulationResult {
+  unitsConsumed: number;
+  computeUnitLimit: number;
+  logs: string[];
+  latencyMs: number;
+}
+
+export interface TransactionSimulatorOptions {
+  // Extra compute units on top of the simulated usage, as a fraction (0.1 = 10%)
+  headroom: number;
+  // Limit to use when the RPC node does not report units consumed
+  fallbackComputeUnitLimit: number;
+  commitment?: Commitment;
+}
+
+// Runtime ceiling for a single transaction
+export const MAX_COMPUTE_UNITS = 1_400_000;
+
+/**
+ * TransactionSimulator class for preflight checks
+ */
+export class TransactionSimulator {
+  private readonly connection: Connection;
+  private readonly options: TransactionSimulatorOptions;
+
+  constructor(connection: Connection, options: TransactionSimulatorOptions) {
+    if (!connection) throw new Error('Solana connection is required');
+    this.connection = connection;
+    this.options = options;
+  }
+
+  /**
+   * Simulate an unsigned transaction
+   * @throws SimulationError if the RPC call fails or the transaction would fail
+   */
+  async simulate(transaction: VersionedTransaction): Promise<SimulationResult> {
+    const startTime = Date.now();
+    let value;
+    try {
+      ({ value } = await this.connection.simulateTransaction(transaction, {
+        sigVerify: false,
+        commitment: this.options.commitment ?? 'processed',
+      }));
+    } catch (error) {
+      throw new SimulationError('rpc_error', `Simulation request failed: ${(error as Error).message}`, [], Date.now() - startTime);
+    }
+
+    const latencyMs = Date.now() - startTime;
+    const logs = value.logs ?? [];
+    if (value.err) {
+      const reason = classifyFailure(value.err, logs);
+      throw new SimulationError(reason, `Simulation failed (${reason}): ${JSON.stringify(value.err)}`, logs, latencyMs);
+    }
+
+    const unitsConsumed = value.unitsConsumed ?? 0;
+    const computeUnitLimit = unitsConsumed > 0
+      ? Math.min(Math.ceil(unitsConsumed * (1 + this.options.headroom)), MAX_COMPUTE_UNITS)
+      : this.options.fallbackComputeUnitLimit;
+    return { unitsConsumed, computeUnitLimit, logs, latencyMs };
+  }
+}
+
+/**
+ * Map a transaction error and its logs to a failure reason
+ */
+export function classifyFailure(err: TransactionError, logs: string[]): SimulationFailureReason {
+  if (typeof err === 'string') {
+    if (err === 'BlockhashNotFound') return 'blockhash_not_found';
+    if (err === 'AccountNotFound' || err === 'ProgramAccountNotFound') return 'account_not_found';
+    if (err.startsWith('InsufficientFunds')) return 'insufficient_funds';
+  }
+
+  const joined = logs.join('\n');
+  for (const [pattern, reason] of LOG_PATTERNS) {
+    if (pattern.test(joined)) return reason;
+  }
+  return 'program_error';
+}
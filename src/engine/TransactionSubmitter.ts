@@ -0,0 +1,170 @@
+// /src/engine/TransactionSubmitter.ts
+// Purpose: Submits signed transactions through the Jito block engine, plain RPC or both, failing over when Jito is down
+
+import { Connection } from '@solana/web3.js';
+import { BlockEngineError, JitoBlockEngineClient } from './JitoBlockEngineClient.js';
+import { ConfirmationOutcome, ConfirmationTracker, TrackedTransaction, TransactionExpiry } from './ConfirmationTracker.js';
+
+export type SubmissionMode = 'jito' | 'rpc' | 'race';
+export type SubmissionPath = 'jito' | 'rpc';
+
+/**
+ * Signed transactions ready for submission, in bundle order
+ */
+export interface SignedBatch {
+  transactions: Buffer[];
+  signatures: string[];
+  expiries: TransactionExpiry[];
+}
+
+/**
+ * Outcome of a landed submission
+ */
+export interface SubmissionResult {
+  landedVia: SubmissionPath;
+  signatures: string[];
+  slot?: number;
+  // Only set when the Jito path landed it
+  bundleId?: string;
+}
+
+export interface TransactionSubmitterOptions {
+  mode: SubmissionMode;
+  // Consecutive block engine errors before switching to RPC
+  failoverThreshold: number;
+  // How long to stay on RPC before trying the block engine again
+  failoverCooldownMs: number;
+  // Wait this long for a block engine verdict before falling back to signature tracking (jito.bundleTimeout)
+  timeoutMs: number;
+}
+
+/**
+ * TransactionSubmitter class choosing and running the submission path per attempt
+ */
+export class TransactionSubmitter {
+  private readonly connection: Connection;
+  private readonly blockEngine: Pick<JitoBlockEngineClient, 'sendBundle' | 'waitForBundle'>;
+  private readonly tracker: ConfirmationTracker;
+  private readonly options: TransactionSubmitterOptions;
+  private blockEngineErrors = 0;
+  private failedOverUntil = 0;
+
+  constructor(
+    connection: Connection,
+    blockEngine: Pick<JitoBlockEngineClient, 'sendBundle' | 'waitForBundle'>,
+    tracker: ConfirmationTracker,
+    options: TransactionSubmitterOptions
+  ) {
+    this.connection = connection;
+    this.blockEngine = blockEngine;
+    this.tracker = tracker;
+    this.options = options;
+  }
+
+  /**
+   * Paths the next submission will use; decides whether transactions need a Jito tip
+   * Multi-transaction bundles always go through Jito since RPC cannot land them atomically
+   * @param transactionCount Number of transactions in the submission
+   */
+  plan(transactionCount: number): SubmissionPath[] {
+    const jitoAvailable = Date.now() >= this.failedOverUntil;
+    if (transactionCount > 1) {
+      if (this.options.mode === 'rpc') throw new Error('Atomic bundles require Jito submission');
+      if (!jitoAvailable) throw new Error('Atomic bundles unavailable while failed over to RPC');
+      return ['jito'];
+    }
+    if (this.options.mode === 'rpc' || !jitoAvailable) return ['rpc'];
+    return this.options.mode === 'race' ? ['jito', 'rpc'] : ['jito'];
+  }
+
+  /**
+   * Submit through the planned paths; when racing, the first path to land wins and the other stops polling and rebroadcasting
+   * Both paths carry the same signed transactions, so a signature can only land once
+   */
+  async submit(batch: SignedBatch, paths: SubmissionPath[]): Promise<SubmissionResult> {
+    const race = new AbortController();
+    const attempts = paths.map(path => path === 'jito' ? this.submitViaJito(batch, race.signal) : this.submitViaRpc(batch, race.signal));
+    if (attempts.length === 1) return await attempts[0]!;
+
+    try {
+      return await Promise.any(attempts);
+    } catch (error) {
+      const reasons = (error as AggregateError).errors.map(reason => (reason as Error).message);
+      throw new Error(`All submission paths failed: ${reasons.join('; ')}`);
+    } finally {
+      race.abort(new Error('Another submission path settled first'));
+    }
+  }
+
+  private async submitViaJito(batch: SignedBatch, signal: AbortSignal): Promise<SubmissionResult> {
+    let bundleId: string;
+    try {
+      bundleId = await this.blockEngine.sendBundle(batch.transactions);
+      this.blockEngineErrors = 0;
+    } catch (error) {
+      if (error instanceof BlockEngineError) this.recordBlockEngineError();
+      throw error;
+    }
+
+    const outcome = await this.blockEngine.waitForBundle(bundleId, this.options.timeoutMs, signal);
+    // Failed and dropped bundles are definitive; landed ones still have to reach the commitment level
+    if (outcome.status === 'failed' || outcome.status === 'dropped') {
+      throw new Error(`Bundle ${bundleId} ${outcome.status}${outcome.error ? `: ${outcome.error}` : ''}`);
+    }
+    if (outcome.status === 'timeout') {
+      console.warn(`⚠️ Bundle ${bundleId.slice(0, 8)}... has no verdict, tracking its signatures until they expire`);
+    }
+
+    // Bundle legs must never be rebroadcast one by one; that would break atomicity
+    const outcomes = await this.tracker.track(this.toTracked(batch), false, signal);
+    const result = this.finalize(outcomes, 'jito');
+    console.log(`📦 Bundle ${bundleId.slice(0, 8)}... landed in slot ${result.slot ?? 'unknown'}`);
+    return { ...result, bundleId };
+  }
+
+  /**
+   * Send through the RPC node, rebroadcasting until confirmed, failed or expired
+   */
+  private async submitViaRpc(batch: SignedBatch, signal: AbortSignal): Promise<SubmissionResult> {
+    for (const transaction of batch.transactions) {
+      await this.connection.sendRawTransaction(transaction, { skipPreflight: true });
+    }
+
+    const result = this.finalize(await this.tracker.track(this.toTracked(batch), true, signal), 'rpc');
+    console.log(`📨 Transaction ${batch.signatures[0]!.slice(0, 8)}... landed via RPC in slot ${result.slot}`);
+    return result;
+  }
+
+  private toTracked(batch: SignedBatch): TrackedTransaction[] {
+    return batch.signatures.map((signature, index) => ({
+      signature,
+      transaction: batch.transactions[index]!,
+      expiry: batch.expiries[index]!,
+    }));
+  }
+
+  /**
+   * @throws Error unless every signature confirmed
+   */
+  private finalize(outcomes: ConfirmationOutcome[], landedVia: SubmissionPath): SubmissionResult {
+    const failed = outcomes.find(outcome => outcome.status === 'failed');
+    if (failed) throw new Error(`Transaction ${failed.signature} failed: ${failed.error}`);
+    const expired = outcomes.find(outcome => outcome.status === 'expired');
+    if (expired) throw new Error(`Transaction ${expired.signature} expired without landing`);
+
+    return {
+      landedVia,
+      signatures: outcomes.map(outcome => outcome.signature),
+      slot: Math.max(...outcomes.map(outcome => outcome.slot ?? 0)),
+    };
+  }
+
+  private recordBlockEngineError(): void {
+    this.blockEngineErrors++;
+    if (this.blockEngineErrors < this.options.failoverThreshold) return;
+
+    this.blockEngineErrors = 0;
+    this.failedOverUntil = Date.now() + this.options.failoverCooldownMs;
+    console.warn(`⚠️ Block engine unavailable, submitting via RPC for ${this.options.failoverCooldownMs}ms`);
+  }
+}
@@ -0,0 +1,98 @@
+// /src/engine/VenueSelector.ts
+// Purpose: Picks the trading venue per token from venue availability and best quote
+
+import { ExchangeAdapter, OrderSide, VenueQuote } from '../interfaces/ExchangeAdapter.js';
+
+/**
+ * Venue chosen for an order together with the quote that won
+ */
+export interface VenueSelection {
+  adapter: ExchangeAdapter;
+  quote: VenueQuote;
+}
+
+/**
+ * VenueSelector class for routing orders across ExchangeAdapter implementations
+ */
+export class VenueSelector {
+  private readonly adapters: ExchangeAdapter[];
+  // Token -> venues ruled out permanently (e.g. a completed bonding curve)
+  private readonly disabledVenues = new Map<string, Set<string>>();
+
+  constructor(adapters: ExchangeAdapter[]) {
+    if (adapters.length === 0) throw new Error('At least one exchange adapter is required');
+    this.adapters = adapters;
+  }
+
+  /**
+   * Stop considering a venue for a token
+   * @param tokenAddress Target token
+   * @param venue Venue name to skip
+   */
+  disableVenue(tokenAddress: string, venue: string): void {
+    const disabled = this.disabledVenues.get(tokenAddress) ?? new Set<string>();
+    disabled.add(venue);
+    this.disabledVenues.set(tokenAddress, disabled);
+  }
+
+  /**
+   * Quote every available venue and return the one with the largest output
+   * @param side Order side
+   * @param tokenAddress Target token
+   * @param amount SOL for buys, tokens for sells
+   * @param slippage Maximum acceptable slippage
+   * @throws Error if no venue can trade the token
+   */
+  async select(side: OrderSide, tokenAddress: string, amount: number, slippage: number): Promise<VenueSelection> {
+    return this.pickBest(tokenAddress, adapter => adapter.quote(side, tokenAddress, amount, slippage));
+  }
+
+  /**
+   * Size a sell worth amountSol on every available venue and return the one paying the most SOL
+   * Each venue converts the SOL size into tokens at its own spot price before quoting
+   * @param amountSol Order size in SOL at the spot price
+   * @returns Selection plus the whole-token amount its quote sells
+   * @throws Error if no venue can trade the token
+   */
+  async selectSell(tokenAddress: string, amountSol: number, slippage: number): Promise<VenueSelection & { amountTokens: number }> {
+    const amountsTokens = new Map<ExchangeAdapter, number>();
+    const selection = await this.pickBest(tokenAddress, async adapter => {
+      // The spot price is taken before the trade, so a one-token quote reads it without moving anything
+      const { spotPrice } = await adapter.quote('sell', tokenAddress, 1, slippage);
+      if (!(spotPrice > 0)) throw new Error('No spot price');
+      const amountTokens = amountSol / spotPrice;
+      amountsTokens.set(adapter, amountTokens);
+      return adapter.quote('sell', tokenAddress, amountTokens, slippage);
+    });
+    return { ...selection, amountTokens: amountsTokens.get(selection.adapter)! };
+  }
+
+  private async pickBest(tokenAddress: string, quote: (adapter: ExchangeAdapter) => Promise<VenueQuote>): Promise<VenueSelection> {
+    const disabled = this.disabledVenues.get(tokenAddress);
+    const candidates = this.adapters.filter(adapter => !disabled?.has(adapter.venue));
+
+    const results = await Promise.all(candidates.map(async adapter => {
+      const health = await adapter.getVenueHealth(tokenAddress);
+      if (!health.available) return { adapter, reason: health.reason ?? 'unavailable' };
+      try {
+        return { adapter, quote: await quote(adapter) };
+      } catch (error) {
+        return { adapter, reason: (error as Error).message };
+      }
+    }));
+
+    let best: VenueSelection | undefined;
+    for (const result of results) {
+      if (!result.quote) continue;
+      if (!best || result.quote.amountOut > best.quote.amountOut) {
+        best = { adapter: result.adapter, quote: result.quote };
+      }
+    }
+
+    if (!best) {
+      const reasons = results.map(result => `${result.adapter.venue}: ${result.reason}`).join('; ');
+      throw new Error(`No venue available for ${tokenAddress} (${reasons || 'all venues disabled'})`);
+    }
+    return best;
+  }
+}
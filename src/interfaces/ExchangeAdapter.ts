@@ -0,0 +1,44 @@
+import { TransactionInstruction } from "@solana/web3.js";
+import { CurveQuote } from "../lib/pumpfun/BondingCurveMath.js";
+
+export type OrderSide = "buy" | "sell";
+
+/**
+ * Quote with slippage-derived bounds
+ * minAmountOut bounds the output, maxAmountIn bounds the input (both in base units)
+ */
+export interface SlippageQuote extends CurveQuote {
+  minAmountOut: bigint;
+  maxAmountIn: bigint;
+}
+
+/**
+ * Quote tagged with the venue that produced it
+ */
+export interface VenueQuote extends SlippageQuote {
+  venue: string;
+  tokenAddress: string;
+}
+
+/**
+ * Whether a venue can currently trade a token
+ */
+export interface VenueHealth {
+  venue: string;
+  available: boolean;
+  reason?: string;
+  checkedAt: number;
+}
+
+/**
+ * Contract every trading venue implements so OrderRouter can route without venue-specific code
+ * Amounts are SOL for buys and whole tokens for sells; slippage is a fraction (0.005 = 0.5%)
+ * Adapters return swap instructions only; the router adds compute budget, fee payer and signatures
+ */
+export interface ExchangeAdapter {
+  readonly venue: string;
+  quote(side: OrderSide, tokenAddress: string, amount: number, slippage: number): Promise<VenueQuote>;
+  createBuyInstructions(tokenAddress: string, amountSol: number, slippage: number): Promise<TransactionInstruction[]>;
+  createSellInstructions(tokenAddress: string, amountTokens: number, slippage: number): Promise<TransactionInstruction[]>;
+  getVenueHealth(tokenAddress: string): Promise<VenueHealth>;
+}
@@ -0,0 +1,77 @@
+// /src/lib/pumpfun/BondingCurveAccount.ts
+// Purpose: Derives and decodes Pump.fun bonding-curve accounts from raw account data
+
+import { PublicKey, AccountInfo } from '@solana/web3.js';
+import { BondingCurveReserves } from './BondingCurveMath.js';
+
+// Pump.fun program ID
+export const PUMP_FUN_PROGRAM_ID = new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P');
+
+// Anchor discriminator: sha256("account:BondingCurve")[0..8]
+export const BONDING_CURVE_DISCRIMINATOR = Buffer.from([23, 183, 248, 55, 96, 216, 172, 96]);
+
+// Discriminator + 5 x u64 + bool
+export const BONDING_CURVE_ACCOUNT_SIZE = 8 + 5 * 8 + 1;
+
+// Curves extended for creator fees carry the coin creator right after the completion flag
+const CREATOR_OFFSET = BONDING_CURVE_ACCOUNT_SIZE;
+
+const BONDING_CURVE_SEED = Buffer.from('bonding-curve');
+
+/**
+ * Decoded bonding-curve account
+ */
+export interface BondingCurveAccount extends BondingCurveReserves {
+  tokenTotalSupply: bigint;
+  // True once the curve has sold out and the token migrated to an AMM
+  complete: boolean;
+  // Coin creator; absent on legacy accounts that were never extended
+  creator?: PublicKey;
+}
+
+/**
+ * Derive the bonding-curve PDA for a mint
+ * @param mint Token mint
+ * @returns Bonding-curve account address
+ */
+export function deriveBondingCurveAddress(mint: PublicKey): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync([BONDING_CURVE_SEED, mint.toBuffer()], PUMP_FUN_PROGRAM_ID);
+  return address;
+}
+
+/**
+ * Decode raw bonding-curve account data
+ * @param data Account data as returned by getAccountInfo
+ * @returns Typed reserves, supply and completion flag
+ * @throws Error if the buffer is not a bonding-curve account
+ */
+export function decodeBondingCurveAccount(data: Buffer): BondingCurveAccount {
+  if (data.length < BONDING_CURVE_ACCOUNT_SIZE) {
+    throw new Error(`Bonding curve account too short: ${data.length} bytes`);
+  }
+  if (!data.subarray(0, 8).equals(BONDING_CURVE_DISCRIMINATOR)) {
+    throw new Error('Account is not a Pump.fun bonding curve');
+  }
+
+  return {
+    virtualTokenReserves: data.readBigUInt64LE(8),
+    virtualSolReserves: data.readBigUInt64LE(16),
+    realTokenReserves: data.readBigUInt64LE(24),
+    realSolReserves: data.readBigUInt64LE(32),
+    tokenTotalSupply: data.readBigUInt64LE(40),
+    complete: data.readUInt8(48) !== 0,
+    creator: data.length >= CREATOR_OFFSET + 32 ? new PublicKey(data.subarray(CREATOR_OFFSET, CREATOR_OFFSET + 32)) : undefined,
+  };
+}
+
+/**
+ * Decode an account fetched over RPC, verifying program ownership first
+ * @param accountInfo Account info for the bonding-curve PDA
+ * @returns Decoded bonding-curve account
+ */
+export function parseBondingCurveAccountInfo(accountInfo: AccountInfo<Buffer>): BondingCurveAccount {
+  if (!accountInfo.owner.equals(PUMP_FUN_PROGRAM_ID)) {
+    throw new Error(`Bonding curve owned by unexpected program ${accountInfo.owner.toBase58()}`);
+  }
+  return decodeBondingCurveAccount(accountInfo.data);
+}
@@ -0,0 +1,176 @@
+// /src/lib/pumpfun/BondingCurveMath.ts
+// Purpose: Constant-product pricing for Pump.fun bonding curves (quotes, fees, price impact, slippage bounds)
+
+/**
+ * Lamports per SOL and base units per token (Pump.fun mints use 6 decimals)
+ */
+export const LAMPORTS_PER_SOL = 1_000_000_000n;
+export const TOKEN_DECIMALS = 6;
+export const TOKEN_BASE_UNITS = 10n ** BigInt(TOKEN_DECIMALS);
+
+/**
+ * Protocol fee charged by the Pump.fun program on every trade (1%)
+ */
+export const DEFAULT_FEE_BPS = 100n;
+
+const BPS_DENOMINATOR = 10_000n;
+
+/**
+ * Reserves that drive the bonding-curve price
+ * Virtual reserves define the curve; real reserves cap what can actually be bought
+ */
+export interface BondingCurveReserves {
+  virtualSolReserves: bigint;
+  virtualTokenReserves: bigint;
+  realSolReserves: bigint;
+  realTokenReserves: bigint;
+}
+
+/**
+ * Result of quoting a trade against the curve
+ * All amounts are in base units (lamports for SOL, 10^-6 for tokens)
+ */
+export interface CurveQuote {
+  side: 'buy' | 'sell';
+  // Amount the wallet pays (lamports on buy, token units on sell), fee included
+  amountIn: bigint;
+  // Amount the wallet receives (token units on buy, lamports on sell), fee deducted
+  amountOut: bigint;
+  // Protocol fee in lamports
+  fee: bigint;
+  // Spot price before the trade in SOL per token
+  spotPrice: number;
+  // Average execution price in SOL per token
+  executionPrice: number;
+  // Relative price move caused by the trade (0.01 = 1%)
+  priceImpact: number;
+}
+
+/**
+ * Spot price in SOL per whole token implied by the virtual reserves
+ */
+export function getSpotPrice(reserves: BondingCurveReserves): number {
+  if (reserves.virtualTokenReserves === 0n) return 0;
+  const sol = Number(reserves.virtualSolReserves) / Number(LAMPORTS_PER_SOL);
+  const tokens = Number(reserves.virtualTokenReserves) / Number(TOKEN_BASE_UNITS);
+  return sol / tokens;
+}
+
+/**
+ * Quote a buy for an exact SOL input (fee included in solIn)
+ */
+export function quoteBuyExactIn(reserves: BondingCurveReserves, solIn: bigint, feeBps: bigint = DEFAULT_FEE_BPS): CurveQuote {
+  if (solIn <= 0n) throw new Error('SOL input must be positive');
+  assertReserves(reserves);
+
+  // Pump.fun charges the fee on top of the curve cost, so split it out of the gross input
+  const solToCurve = (solIn * BPS_DENOMINATOR) / (BPS_DENOMINATOR + feeBps);
+  const fee = solIn - solToCurve;
+  let tokensOut = (reserves.virtualTokenReserves * solToCurve) / (reserves.virtualSolReserves + solToCurve);
+  if (tokensOut > reserves.realTokenReserves) tokensOut = reserves.realTokenReserves;
+  if (tokensOut <= 0n) throw new Error('SOL input too small to receive any tokens');
+
+  return buildQuote('buy', reserves, solIn, tokensOut, fee, solToCurve, tokensOut);
+}
+
+/**
+ * Quote a buy for an exact token output, returning the SOL cost with fee
+ */
+export function quoteBuyExactOut(reserves: BondingCurveReserves, tokensOut: bigint, feeBps: bigint = DEFAULT_FEE_BPS): CurveQuote {
+  if (tokensOut <= 0n) throw new Error('Token output must be positive');
+  assertReserves(reserves);
+  if (tokensOut > reserves.realTokenReserves) throw new Error('Token output exceeds curve reserves');
+
+  const solToCurve = ceilDiv(reserves.virtualSolReserves * tokensOut, reserves.virtualTokenReserves - tokensOut);
+  const fee = ceilDiv(solToCurve * feeBps, BPS_DENOMINATOR);
+
+  return buildQuote('buy', reserves, solToCurve + fee, tokensOut, fee, solToCurve, tokensOut);
+}
+
+/**
+ * Quote a sell for an exact token input, returning SOL received after fee
+ */
+export function quoteSellExactIn(reserves: BondingCurveReserves, tokensIn: bigint, feeBps: bigint = DEFAULT_FEE_BPS): CurveQuote {
+  if (tokensIn <= 0n) throw new Error('Token input must be positive');
+  assertReserves(reserves);
+
+  const solFromCurve = (reserves.virtualSolReserves * tokensIn) / (reserves.virtualTokenReserves + tokensIn);
+  if (solFromCurve > reserves.realSolReserves) throw new Error('Sell exceeds curve SOL reserves');
+  const fee = ceilDiv(solFromCurve * feeBps, BPS_DENOMINATOR);
+
+  return buildQuote('sell', reserves, tokensIn, solFromCurve - fee, fee, solFromCurve, tokensIn);
+}
+
+/**
+ * Quote a sell for an exact SOL output (after fee), returning the tokens required
+ */
+export function quoteSellExactOut(reserves: BondingCurveReserves, solOut: bigint, feeBps: bigint = DEFAULT_FEE_BPS): CurveQuote {
+  if (solOut <= 0n) throw new Error('SOL output must be positive');
+  assertReserves(reserves);
+
+  const solFromCurve = ceilDiv(solOut * BPS_DENOMINATOR, BPS_DENOMINATOR - feeBps);
+  if (solFromCurve >= reserves.virtualSolReserves || solFromCurve > reserves.realSolReserves) {
+    throw new Error('SOL output exceeds curve reserves');
+  }
+  const tokensIn = ceilDiv(reserves.virtualTokenReserves * solFromCurve, reserves.virtualSolReserves - solFromCurve);
+
+  return buildQuote('sell', reserves, tokensIn, solOut, solFromCurve - solOut, solFromCurve, tokensIn);
+}
+
+/**
+ * Minimum acceptable output for a quote given a slippage tolerance (0.005 = 0.5%)
+ */
+export function minOutWithSlippage(amountOut: bigint, slippage: number): bigint {
+  return (amountOut * (BPS_DENOMINATOR - slippageToBps(slippage))) / BPS_DENOMINATOR;
+}
+
+/**
+ * Maximum acceptable input for a quote given a slippage tolerance (0.005 = 0.5%)
+ */
+export function maxInWithSlippage(amountIn: bigint, slippage: number): bigint {
+  return ceilDiv(amountIn * (BPS_DENOMINATOR + slippageToBps(slippage)), BPS_DENOMINATOR);
+}
+
+/**
+ * Convert a decimal SOL amount to lamports
+ */
+export function solToLamports(amountSol: number): bigint {
+  return BigInt(Math.round(amountSol * Number(LAMPORTS_PER_SOL)));
+}
+
+/**
+ * Convert a decimal token amount to base units
+ */
+export function tokensToBaseUnits(amountTokens: number): bigint {
+  return BigInt(Math.round(amountTokens * Number(TOKEN_BASE_UNITS)));
+}
+
+function buildQuote(
+  side: 'buy' | 'sell',
+  reserves: BondingCurveReserves,
+  amountIn: bigint,
+  amountOut: bigint,
+  fee: bigint,
+  curveSol: bigint,
+  curveTokens: bigint
+): CurveQuote {
+  const spotPrice = getSpotPrice(reserves);
+  const executionPrice = (Number(curveSol) / Number(LAMPORTS_PER_SOL)) / (Number(curveTokens) / Number(TOKEN_BASE_UNITS));
+  const priceImpact = spotPrice > 0 ? Math.abs(executionPrice - spotPrice) / spotPrice : 0;
+  return { side, amountIn, amountOut, fee, spotPrice, executionPrice, priceImpact };
+}
+
+function assertReserves(reserves: BondingCurveReserves): void {
+  if (reserves.virtualSolReserves <= 0n || reserves.virtualTokenReserves <= 0n) {
+    throw new Error('Bonding curve has no virtual reserves');
+  }
+}
+
+function slippageToBps(slippage: number): bigint {
+  if (slippage < 0 || slippage >= 1) throw new Error('Slippage must be between 0 and 1');
+  return BigInt(Math.round(slippage * Number(BPS_DENOMINATOR)));
+}
+
+function ceilDiv(numerator: bigint, denominator: bigint): bigint {
+  return (numerator + denominator - 1n) / denominator;
+}
@@ -0,0 +1,141 @@
+// /src/lib/pumpswap/PumpSwapPool.ts
+// Purpose: Derives, decodes and prices PumpSwap AMM pools that Pump.fun tokens migrate to on graduation
+
+import { PublicKey } from '@solana/web3.js';
+import { PUMP_FUN_PROGRAM_ID } from '../pumpfun/BondingCurveAccount.js';
+import { CurveQuote, LAMPORTS_PER_SOL, TOKEN_BASE_UNITS } from '../pumpfun/BondingCurveMath.js';
+
+// PumpSwap AMM program ID
+export const PUMP_SWAP_PROGRAM_ID = new PublicKey('pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA');
+
+// Wrapped SOL mint used as the quote side of migrated pools
+export const WSOL_MINT = new PublicKey('So11111111111111111111111111111111111111112');
+
+// LP fee (20 bps) plus protocol fee (5 bps)
+export const PUMP_SWAP_FEE_BPS = 25n;
+
+// Discriminator + bump + index + 6 pubkeys + lp supply
+export const POOL_ACCOUNT_SIZE = 8 + 1 + 2 + 6 * 32 + 8;
+
+const BPS_DENOMINATOR = 10_000n;
+
+// SPL token account amount offset (mint + owner precede it)
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+
+/**
+ * Decoded PumpSwap pool account
+ */
+export interface PumpSwapPool {
+  index: number;
+  creator: PublicKey;
+  baseMint: PublicKey;
+  quoteMint: PublicKey;
+  lpMint: PublicKey;
+  poolBaseTokenAccount: PublicKey;
+  poolQuoteTokenAccount: PublicKey;
+}
+
+/**
+ * Pool vault balances in base units (tokens for base, lamports for quote)
+ */
+export interface PoolReserves {
+  baseReserves: bigint;
+  quoteReserves: bigint;
+}
+
+/**
+ * Derive the canonical pool a Pump.fun mint migrates to
+ * Migration creates pool index 0 with the curve's pool-authority PDA as creator
+ * @param mint Graduated token mint
+ * @returns Pool account address
+ */
+export function deriveCanonicalPoolAddress(mint: PublicKey): PublicKey {
+  const [poolAuthority] = PublicKey.findProgramAddressSync(
+    [Buffer.from('pool-authority'), mint.toBuffer()],
+    PUMP_FUN_PROGRAM_ID
+  );
+  const index = Buffer.alloc(2);
+  index.writeUInt16LE(0, 0);
+  const [pool] = PublicKey.findProgramAddressSync(
+    [Buffer.from('pool'), index, poolAuthority.toBuffer(), mint.toBuffer(), WSOL_MINT.toBuffer()],
+    PUMP_SWAP_PROGRAM_ID
+  );
+  return pool;
+}
+
+/**
+ * Decode raw pool account data
+ * @param data Account data as returned by getAccountInfo
+ * @returns Pool mints and vault addresses
+ */
+export function decodePoolAccount(data: Buffer): PumpSwapPool {
+  if (data.length < POOL_ACCOUNT_SIZE) throw new Error(`Pool account too short: ${data.length} bytes`);
+  const key = (offset: number) => new PublicKey(data.subarray(offset, offset + 32));
+  return {
+    index: data.readUInt16LE(9),
+    creator: key(11),
+    baseMint: key(43),
+    quoteMint: key(75),
+    lpMint: key(107),
+    poolBaseTokenAccount: key(139),
+    poolQuoteTokenAccount: key(171),
+  };
+}
+
+/**
+ * Read the amount field of an SPL token account
+ */
+export function decodeTokenAccountAmount(data: Buffer): bigint {
+  return data.readBigUInt64LE(TOKEN_ACCOUNT_AMOUNT_OFFSET);
+}
+
+/**
+ * Quote buying base tokens with an exact SOL input (fee taken from the input)
+ */
+export function quotePoolBuy(reserves: PoolReserves, quoteIn: bigint, feeBps: bigint = PUMP_SWAP_FEE_BPS): CurveQuote {
+  if (quoteIn <= 0n) throw new Error('SOL input must be positive');
+  assertLiquidity(reserves);
+  const fee = (quoteIn * feeBps + BPS_DENOMINATOR - 1n) / BPS_DENOMINATOR;
+  const netIn = quoteIn - fee;
+  const baseOut = (reserves.baseReserves * netIn) / (reserves.quoteReserves + netIn);
+  if (baseOut <= 0n) throw new Error('SOL input too small to receive any tokens');
+  return buildPoolQuote('buy', reserves, quoteIn, baseOut, fee, netIn, baseOut);
+}
+
+/**
+ * Quote selling an exact base token input for SOL (fee taken from the output)
+ */
+export function quotePoolSell(reserves: PoolReserves, baseIn: bigint, feeBps: bigint = PUMP_SWAP_FEE_BPS): CurveQuote {
+  if (baseIn <= 0n) throw new Error('Token input must be positive');
+  assertLiquidity(reserves);
+  const grossOut = (reserves.quoteReserves * baseIn) / (reserves.baseReserves + baseIn);
+  const fee = (grossOut * feeBps + BPS_DENOMINATOR - 1n) / BPS_DENOMINATOR;
+  return buildPoolQuote('sell', reserves, baseIn, grossOut - fee, fee, grossOut, baseIn);
+}
+
+/**
+ * Spot price in SOL per whole token from pool reserves
+ */
+export function getPoolSpotPrice(reserves: PoolReserves): number {
+  if (reserves.baseReserves === 0n) return 0;
+  return (Number(reserves.quoteReserves) / Number(LAMPORTS_PER_SOL)) / (Number(reserves.baseReserves) / Number(TOKEN_BASE_UNITS));
+}
+
+function buildPoolQuote(
+  side: 'buy' | 'sell',
+  reserves: PoolReserves,
+  amountIn: bigint,
+  amountOut: bigint,
+  fee: bigint,
+  poolSol: bigint,
+  poolTokens: bigint
+): CurveQuote {
+  const spotPrice = getPoolSpotPrice(reserves);
+  const executionPrice = (Number(poolSol) / Number(LAMPORTS_PER_SOL)) / (Number(poolTokens) / Number(TOKEN_BASE_UNITS));
+  const priceImpact = spotPrice > 0 ? Math.abs(executionPrice - spotPrice) / spotPrice : 0;
+  return { side, amountIn, amountOut, fee, spotPrice, executionPrice, priceImpact };
+}
+
+function assertLiquidity(reserves: PoolReserves): void {
+  if (reserves.baseReserves <= 0n || reserves.quoteReserves <= 0n) throw new Error('Pool has no liquidity');
+}
@@ -0,0 +1,121 @@
+// /src/lib/risk/VolatilityEstimator.ts
+// Purpose: Per-token realized volatility from our own price observations, via EWMA of bar returns and the Parkinson high-low range
+
+/**
+ * Estimator tuning; volatility is per bar of barIntervalMs
+ */
+export interface VolatilityEstimatorOptions {
+  barIntervalMs: number;
+  // Weight of the previous variance per bar (0.94 = RiskMetrics)
+  ewmaLambda: number;
+  // Completed bars the Parkinson estimator averages over
+  window: number;
+  // Volatility at which spreads double
+  targetVolatility: number;
+  maxSpreadMultiplier: number;
+}
+
+/**
+ * Relative volatility per bar (0.05 = 5%); 0 until enough bars closed
+ */
+export interface VolatilityEstimate {
+  ewma: number;
+  parkinson: number;
+  // Larger of the two: close-to-close returns miss intrabar swings, the range misses gaps between bars
+  volatility: number;
+  bars: number;
+}
+
+interface PriceBar {
+  start: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+interface TokenSeries {
+  bars: PriceBar[];
+  current?: PriceBar;
+  lastClose?: number;
+  ewmaVariance?: number;
+}
+
+// Parkinson normalization: E[ln(H/L)²] = 4·ln2·σ² for a driftless random walk
+const PARKINSON_FACTOR = 4 * Math.LN2;
+
+/**
+ * VolatilityEstimator class folding price observations into fixed bars per token
+ */
+export class VolatilityEstimator {
+  private readonly options: VolatilityEstimatorOptions;
+  private readonly series = new Map<string, TokenSeries>();
+
+  constructor(options: VolatilityEstimatorOptions) {
+    if (options.barIntervalMs <= 0) throw new Error('Bar interval must be positive');
+    if (options.ewmaLambda <= 0 || options.ewmaLambda >= 1) throw new Error('EWMA lambda must be between 0 and 1');
+    if (options.window < 1) throw new Error('At least one bar is required');
+    this.options = options;
+  }
+
+  /**
+   * Record a price; observations older than the open bar are ignored
+   * @param price SOL per token
+   */
+  observe(tokenAddress: string, price: number, timestamp: number = Date.now()): void {
+    if (!(price > 0)) return;
+    const start = Math.floor(timestamp / this.options.barIntervalMs) * this.options.barIntervalMs;
+    let series = this.series.get(tokenAddress);
+    if (!series) {
+      series = { bars: [] };
+      this.series.set(tokenAddress, series);
+    }
+
+    const current = series.current;
+    if (current && start === current.start) {
+      current.high = Math.max(current.high, price);
+      current.low = Math.min(current.low, price);
+      current.close = price;
+      return;
+    }
+    if (current && start < current.start) return;
+    // Bars without observations are skipped, so a gap's move lands in the next bar's return
+    if (current) this.closeBar(series, current);
+    series.current = { start, high: price, low: price, close: price };
+  }
+
+  estimate(tokenAddress: string): VolatilityEstimate {
+    const series = this.series.get(tokenAddress);
+    if (!series) return { ewma: 0, parkinson: 0, volatility: 0, bars: 0 };
+
+    const ewma = Math.sqrt(series.ewmaVariance ?? 0);
+    const { bars } = series;
+    const rangeSquares = bars.reduce((total, bar) => total + Math.log(bar.high / bar.low) ** 2, 0);
+    const parkinson = bars.length > 0 ? Math.sqrt(rangeSquares / (PARKINSON_FACTOR * bars.length)) : 0;
+    return { ewma, parkinson, volatility: Math.max(ewma, parkinson), bars: bars.length };
+  }
+
+  /**
+   * Spread (and tip) scaling: 1 when calm, 2 at the target volatility, capped at maxSpreadMultiplier
+   */
+  getSpreadMultiplier(tokenAddress: string): number {
+    const { volatility } = this.estimate(tokenAddress);
+    return Math.min(1 + volatility / this.options.targetVolatility, this.options.maxSpreadMultiplier);
+  }
+
+  forget(tokenAddress: string): void {
+    this.series.delete(tokenAddress);
+  }
+
+  private closeBar(series: TokenSeries, bar: PriceBar): void {
+    if (series.lastClose !== undefined) {
+      const squaredReturn = Math.log(bar.close / series.lastClose) ** 2;
+      const { ewmaLambda } = this.options;
+      series.ewmaVariance = series.ewmaVariance === undefined
+        ? squaredReturn
+        : ewmaLambda * series.ewmaVariance + (1 - ewmaLambda) * squaredReturn;
+    }
+    series.lastClose = bar.close;
+    series.bars.push(bar);
+    if (series.bars.length > this.options.window) series.bars.shift();
+  }
+}
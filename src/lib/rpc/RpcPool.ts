@@ -0,0 +1,215 @@
+// /src/lib/rpc/RpcPool.ts
+// Purpose: Pool of RPC endpoints scored by latency, slot lag and error rate behind a Connection-compatible facade
+
+import { Commitment, Connection, SendTransactionError, SolanaJSONRPCError } from '@solana/web3.js';
+import { setInterval, clearInterval } from 'node:timers';
+
+/**
+ * Health of one endpoint as seen by the pool
+ */
+export interface RpcEndpointHealth {
+  // Host only; URLs often carry API keys
+  label: string;
+  // Moving average of request latency in milliseconds
+  latencyMs: number;
+  // Moving average of failed requests, 0-1
+  errorRate: number;
+  slot: number;
+  // Slots behind the most advanced endpoint
+  slotLag: number;
+  healthy: boolean;
+}
+
+export interface RpcPoolOptions {
+  commitment: Commitment;
+  // Delay between health checks in milliseconds
+  healthCheckIntervalMs: number;
+  // Endpoints further behind than this are only used when nothing healthier is left
+  maxSlotLag: number;
+}
+
+interface Endpoint {
+  url: string;
+  label: string;
+  connection: Connection;
+  latencyMs: number;
+  errorRate: number;
+  slot: number;
+}
+
+// Weight of the newest sample in the moving averages
+const EWMA_ALPHA = 0.3;
+// Error rate above which an endpoint is unhealthy
+const MAX_ERROR_RATE = 0.5;
+// Score penalty per slot of lag, in milliseconds of latency
+const SLOT_LAG_PENALTY_MS = 50;
+// JSON-RPC errors that say the node, not the request, is at fault: internal error and node behind
+const RETRYABLE_RPC_CODES = new Set([-32603, -32005]);
+
+/**
+ * RpcPool class routing every Connection call to the healthiest endpoint with transparent failover
+ */
+export class RpcPool {
+  readonly connection: Connection;
+  private readonly endpoints: Endpoint[];
+  private readonly options: RpcPoolOptions;
+  private healthTimer?: NodeJS.Timeout;
+  private current?: Endpoint;
+
+  /**
+   * @param urls Endpoints in order of preference; duplicates are ignored
+   * @param connectionFactory Injectable for tests
+   */
+  constructor(
+    urls: string[],
+    options: RpcPoolOptions,
+    connectionFactory: (url: string, commitment: Commitment) => Connection = (url, commitment) => new Connection(url, commitment)
+  ) {
+    const unique = [...new Set(urls.filter(Boolean))];
+    if (unique.length === 0) throw new Error('At least one RPC endpoint is required');
+
+    this.options = options;
+    this.endpoints = unique.map(url => ({
+      url,
+      label: new URL(url).host,
+      connection: connectionFactory(url, options.commitment),
+      latencyMs: 0,
+      errorRate: 0,
+      slot: 0,
+    }));
+    this.connection = this.createFacade();
+  }
+
+  /**
+   * Run an initial health check and keep scoring endpoints in the background
+   */
+  async start(): Promise<void> {
+    await this.checkHealth();
+    this.healthTimer ??= setInterval(() => {
+      this.checkHealth().catch(error => console.error(`❌ RPC health check failed: ${(error as Error).message}`));
+    }, this.options.healthCheckIntervalMs).unref();
+    console.log(`🌐 RPC pool started with ${this.endpoints.length} endpoint(s)`);
+  }
+
+  stop(): void {
+    if (this.healthTimer) clearInterval(this.healthTimer);
+    this.healthTimer = undefined;
+  }
+
+  getHealth(): RpcEndpointHealth[] {
+    const topSlot = this.topSlot();
+    return this.endpoints.map(endpoint => ({
+      label: endpoint.label,
+      latencyMs: Math.round(endpoint.latencyMs),
+      errorRate: endpoint.errorRate,
+      slot: endpoint.slot,
+      slotLag: topSlot - endpoint.slot,
+      healthy: this.isHealthy(endpoint, topSlot),
+    }));
+  }
+
+  /**
+   * Probe every endpoint with getSlot, which measures latency and slot lag in one call
+   */
+  async checkHealth(): Promise<void> {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      const startedAt = Date.now();
+      try {
+        endpoint.slot = await endpoint.connection.getSlot(this.options.commitment);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+      } catch {
+        this.recordFailure(endpoint);
+      }
+    }));
+  }
+
+  /**
+   * Endpoints ordered best first: healthy before unhealthy, then by latency weighted by errors and slot lag
+   */
+  private ranked(): Endpoint[] {
+    const topSlot = this.topSlot();
+    const score = (endpoint: Endpoint) =>
+      endpoint.latencyMs * (1 + endpoint.errorRate) + (topSlot - endpoint.slot) * SLOT_LAG_PENALTY_MS;
+
+    return [...this.endpoints].sort((a, b) =>
+      Number(this.isHealthy(b, topSlot)) - Number(this.isHealthy(a, topSlot)) || score(a) - score(b)
+    );
+  }
+
+  /**
+   * Proxy over the primary connection; subscriptions stay on the primary because their IDs are per connection
+   */
+  private createFacade(): Connection {
+    const primary = this.endpoints[0]!.connection;
+    return new Proxy(primary, {
+      get: (target, property) => {
+        const value = Reflect.get(target, property);
+        if (typeof value !== 'function') return Reflect.get(this.ranked()[0]!.connection, property);
+        if (typeof property !== 'string' || property.startsWith('on') || property.startsWith('remove') || property.startsWith('_')) {
+          return value.bind(target);
+        }
+        return (...args: unknown[]) => this.invoke(property, args);
+      },
+    });
+  }
+
+  /**
+   * Call a Connection method on the best endpoint, moving down the ranking on endpoint failures
+   */
+  private async invoke(method: string, args: unknown[]): Promise<unknown> {
+    let lastError: unknown;
+    for (const endpoint of this.ranked()) {
+      this.select(endpoint);
+      const startedAt = Date.now();
+      try {
+        const fn = (endpoint.connection as unknown as Record<string, (...params: unknown[]) => unknown>)[method]!;
+        const result = await fn.apply(endpoint.connection, args);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        if (!isEndpointFailure(error)) throw error;
+        this.recordFailure(endpoint);
+        lastError = error;
+        console.warn(`⚠️ RPC ${method} failed on ${endpoint.label}: ${(error as Error).message}`);
+      }
+    }
+    throw lastError;
+  }
+
+  private select(endpoint: Endpoint): void {
+    if (this.current && this.current !== endpoint) {
+      console.warn(`🔀 RPC failover: ${this.current.label} -> ${endpoint.label}`);
+    }
+    this.current = endpoint;
+  }
+
+  private recordSuccess(endpoint: Endpoint, latencyMs: number): void {
+    endpoint.latencyMs = endpoint.latencyMs === 0 ? latencyMs : ewma(endpoint.latencyMs, latencyMs);
+    endpoint.errorRate = ewma(endpoint.errorRate, 0);
+  }
+
+  private recordFailure(endpoint: Endpoint): void {
+    endpoint.errorRate = ewma(endpoint.errorRate, 1);
+  }
+
+  private isHealthy(endpoint: Endpoint, topSlot: number): boolean {
+    return endpoint.errorRate < MAX_ERROR_RATE && topSlot - endpoint.slot <= this.options.maxSlotLag;
+  }
+
+  private topSlot(): number {
+    return Math.max(...this.endpoints.map(endpoint => endpoint.slot));
+  }
+}
+
+/**
+ * Transport failures and node-side errors warrant another endpoint; request errors would fail anywhere
+ */
+function isEndpointFailure(error: unknown): boolean {
+  if (error instanceof SendTransactionError) return false;
+  if (error instanceof SolanaJSONRPCError) return RETRYABLE_RPC_CODES.has(error.code as number);
+  return true;
+}
+
+function ewma(previous: number, sample: number): number {
+  return previous + EWMA_ALPHA * (sample - previous);
+}
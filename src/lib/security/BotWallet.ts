@@ -0,0 +1,167 @@
+// /src/lib/security/BotWallet.ts
+// Purpose: Loads the bot wallet from an env secret or encrypted keystore without ever exposing secret material
+
+import { Keypair, PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { inspect } from 'node:util';
+
+/**
+ * Wallet source settings (subset of SecurityConfig)
+ */
+export interface WalletSource {
+  privateKey?: string;
+  keystorePath?: string;
+  passphrase?: string;
+}
+
+/**
+ * Passphrase-encrypted keystore file layout (all binary fields base64)
+ */
+export interface KeystoreFile {
+  version: 1;
+  publicKey: string;
+  kdf: 'scrypt';
+  kdfParams: { N: number; r: number; p: number; salt: string };
+  cipher: 'aes-256-gcm';
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+const DEFAULT_KDF_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+/**
+ * BotWallet class holding the trading keypair
+ * The secret key is only reachable through getKeypair() for signing; logging or serializing shows the public key only
+ */
+export class BotWallet {
+  readonly publicKey: PublicKey;
+  readonly #keypair: Keypair;
+
+  private constructor(keypair: Keypair) {
+    this.#keypair = keypair;
+    this.publicKey = keypair.publicKey;
+  }
+
+  /**
+   * Load the wallet from configuration, preferring the keystore when both are set
+   * @param source Private key and/or keystore settings
+   * @throws Error without secret material if the key cannot be loaded
+   */
+  static load(source: WalletSource): BotWallet {
+    const wallet = source.keystorePath
+      ? BotWallet.fromKeystore(source.keystorePath, source.passphrase ?? '')
+      : BotWallet.fromSecret(source.privateKey ?? '');
+    console.log(`🔑 Bot wallet loaded: ${wallet.publicKey.toBase58()}`);
+    return wallet;
+  }
+
+  /**
+   * Decode a secret key given as base58 or a JSON byte array (solana-keygen format)
+   * @param secret Encoded 64-byte secret key
+   */
+  static fromSecret(secret: string): BotWallet {
+    const trimmed = secret.trim();
+    let bytes: Uint8Array;
+    try {
+      bytes = trimmed.startsWith('[')
+        ? Uint8Array.from(JSON.parse(trimmed) as number[])
+        : bs58.decode(trimmed);
+    } catch {
+      throw new Error('BOT_PRIVATE_KEY is neither valid base58 nor a JSON byte array');
+    }
+    if (bytes.length !== 64) throw new Error(`BOT_PRIVATE_KEY must decode to 64 bytes, got ${bytes.length}`);
+
+    try {
+      return new BotWallet(Keypair.fromSecretKey(new Uint8Array(bytes)));
+    } catch {
+      throw new Error('BOT_PRIVATE_KEY is not a valid ed25519 secret key');
+    } finally {
+      // Keypair holds its own copy; wipe the decoded buffer
+      bytes.fill(0);
+    }
+  }
+
+  /**
+   * Decrypt a keystore file written by encryptKeystore
+   * @param path Keystore file path
+   * @param passphrase Decryption passphrase
+   */
+  static fromKeystore(path: string, passphrase: string): BotWallet {
+    if (!passphrase) throw new Error('BOT_PASSPHRASE is required to unlock the keystore');
+    const keystore = JSON.parse(readFileSync(path, 'utf8')) as KeystoreFile;
+    if (keystore.version !== 1 || keystore.kdf !== 'scrypt' || keystore.cipher !== 'aes-256-gcm') {
+      throw new Error(`Unsupported keystore format in ${path}`);
+    }
+
+    const { N, r, p, salt } = keystore.kdfParams;
+    const key = scryptSync(passphrase, Buffer.from(salt, 'base64'), 32, { N, r, p, maxmem: 256 * N * r });
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(keystore.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(keystore.authTag, 'base64'));
+
+    let secretKey: Buffer;
+    try {
+      secretKey = Buffer.concat([decipher.update(Buffer.from(keystore.ciphertext, 'base64')), decipher.final()]);
+    } catch {
+      throw new Error('Failed to decrypt keystore: wrong passphrase or corrupted file');
+    } finally {
+      key.fill(0);
+    }
+
+    try {
+      const wallet = new BotWallet(Keypair.fromSecretKey(new Uint8Array(secretKey)));
+      if (wallet.publicKey.toBase58() !== keystore.publicKey) {
+        throw new Error('Keystore public key does not match decrypted secret');
+      }
+      return wallet;
+    } finally {
+      secretKey.fill(0);
+    }
+  }
+
+  /**
+   * Keypair for transaction signing; never log or serialize the result
+   */
+  getKeypair(): Keypair {
+    return this.#keypair;
+  }
+
+  toJSON(): { publicKey: string } {
+    return { publicKey: this.publicKey.toBase58() };
+  }
+
+  [inspect.custom](): string {
+    return `BotWallet(${this.publicKey.toBase58()})`;
+  }
+}
+
+/**
+ * Encrypt a secret key into the keystore format read by BotWallet.fromKeystore
+ * @param secretKey 64-byte secret key
+ * @param passphrase Encryption passphrase
+ */
+export function encryptKeystore(secretKey: Uint8Array, passphrase: string, kdfParams = DEFAULT_KDF_PARAMS): KeystoreFile {
+  if (!passphrase) throw new Error('Passphrase is required');
+  const publicKey = Keypair.fromSecretKey(secretKey).publicKey.toBase58();
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const { N, r, p } = kdfParams;
+  const key = scryptSync(passphrase, salt, 32, { N, r, p, maxmem: 256 * N * r });
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(secretKey), cipher.final()]);
+  key.fill(0);
+
+  return {
+    version: 1,
+    publicKey,
+    kdf: 'scrypt',
+    kdfParams: { N, r, p, salt: salt.toString('base64') },
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
@@ -1,34 +1,94 @@
 // HardwareSecurityModule.ts
-import TransportWebUSB from '@ledgerhq/hw-transport-webusb';
-import Solana from '@ledgerhq/hw-app-solana';
-import { Keypair, Transaction } from '@solana/web3.js';
+// Ledger packages are imported on connect, so deployments with another signer never load the USB stack
+import { PublicKey } from '@solana/web3.js';
+import { SignableTransaction, TransactionSigner, attachSignature, getMessageBytes } from './TransactionSigner.js';
 
-export class HardwareSecurityModule {
-  private transport: TransportWebUSB | null = null;
-  private solanaApp: Solana | null = null;
+/**
+ * Subset of the Ledger transport the signer relies on
+ */
+export interface LedgerTransport {
+  close(): Promise<void>;
+}
+
+/**
+ * Subset of the Ledger Solana app the signer relies on
+ */
+export interface LedgerSolanaApp {
+  getAddress(path: string): Promise<{ address: Buffer }>;
+  signTransaction(path: string, txBuffer: Buffer): Promise<{ signature: Buffer }>;
+}
+
+export interface HardwareSecurityModuleOptions {
+  derivationPath?: string;
+  // Public key the device must report; pins the fee payer before the device is connected
+  expectedPublicKey: PublicKey;
+  // Injectable for tests; defaults to USB HID + the Ledger Solana app
+  transportFactory?: () => Promise<LedgerTransport>;
+  appFactory?: (transport: LedgerTransport) => LedgerSolanaApp | Promise<LedgerSolanaApp>;
+}
+
+export class HardwareSecurityModule implements TransactionSigner {
+  readonly kind = 'ledger' as const;
+  private readonly derivationPath: string;
+  private readonly expectedPublicKey: PublicKey;
+  private readonly transportFactory: () => Promise<LedgerTransport>;
+  private readonly appFactory: (transport: LedgerTransport) => LedgerSolanaApp | Promise<LedgerSolanaApp>;
+  private transport: LedgerTransport | null = null;
+  private solanaApp: LedgerSolanaApp | null = null;
+
+  constructor(options: HardwareSecurityModuleOptions) {
+    this.derivationPath = options.derivationPath ?? "44'/501'/0'/0'";
+    this.expectedPublicKey = options.expectedPublicKey;
+    this.transportFactory = options.transportFactory ?? openNodeHidTransport;
+    this.appFactory = options.appFactory ?? openSolanaApp;
+  }
 
   async connect(): Promise<void> {
-    this.transport = await TransportWebUSB.create();
-    this.solanaApp = new Solana(this.transport);
+    if (this.solanaApp) return;
+    this.transport = await this.transportFactory();
+    this.solanaApp = await this.appFactory(this.transport);
+
+    const { address } = await this.solanaApp.getAddress(this.derivationPath);
+    const devicePublicKey = new PublicKey(address);
+    if (!devicePublicKey.equals(this.expectedPublicKey)) {
+      await this.disconnect();
+      throw new Error(`Ledger key ${devicePublicKey.toBase58()} does not match configured signer ${this.expectedPublicKey.toBase58()}`);
+    }
+    console.log(`🔐 Ledger connected: ${devicePublicKey.toBase58()}`);
   }
 
-  async signTransaction(
-    tx: Transaction,
-    derivationPath: string = "44'/501'/0'/0'"
-  ): Promise<Transaction> {
+  getPublicKey(): PublicKey {
+    return this.expectedPublicKey;
+  }
+
+  async signTransaction<T extends SignableTransaction>(tx: T): Promise<T> {
     if (!this.solanaApp) throw new Error('HSM not connected');
-    
-    const msg = tx.serializeMessage();
-    const { signature } = await this.solanaApp.signTransaction(
-      derivationPath,
-      msg
-    );
-    
-    tx.addSignature(Keypair.fromSecretKey(Buffer.from(signature)).publicKey, signature);
-    return tx;
+
+    const { signature } = await this.solanaApp.signTransaction(this.derivationPath, getMessageBytes(tx));
+    return attachSignature(tx, this.expectedPublicKey, signature);
   }
 
   async disconnect(): Promise<void> {
     await this.transport?.close();
+    this.transport = null;
+    this.solanaApp = null;
   }
 }
+
+// The packages' ESM builds use extensionless imports that Node cannot resolve; load the CommonJS builds
+async function openNodeHidTransport(): Promise<LedgerTransport> {
+  const TransportNodeHid = defaultExport(await import('@ledgerhq/hw-transport-node-hid/lib/TransportNodeHid'));
+  return TransportNodeHid.create();
+}
+
+async function openSolanaApp(transport: LedgerTransport): Promise<LedgerSolanaApp> {
+  const Solana = defaultExport(await import('@ledgerhq/hw-app-solana/lib/Solana'));
+  return new Solana(transport as ConstructorParameters<typeof Solana>[0]);
+}
+
+/**
+ * Default export of a CommonJS package; Node wraps module.exports, transpilers unwrap it
+ */
+function defaultExport<T>(module: { default: T }): T {
+  return (module.default as { default?: T }).default ?? module.default;
+}
@@ -0,0 +1,39 @@
+// /src/lib/security/KeypairSigner.ts
+// Purpose: In-memory keypair signer backed by the loaded bot wallet
+
+import { Keypair, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { SignableTransaction, TransactionSigner } from './TransactionSigner.js';
+
+/**
+ * KeypairSigner class signing with a local keypair
+ */
+export class KeypairSigner implements TransactionSigner {
+  readonly kind = 'local' as const;
+  private readonly keypair: Keypair;
+
+  constructor(keypair: Keypair) {
+    if (!keypair) throw new Error('Keypair is required');
+    this.keypair = keypair;
+  }
+
+  async connect(): Promise<void> {
+    // Nothing to connect; the key is already in memory
+  }
+
+  async disconnect(): Promise<void> {
+    // Nothing to release
+  }
+
+  getPublicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async signTransaction<T extends SignableTransaction>(transaction: T): Promise<T> {
+    if (transaction instanceof VersionedTransaction) {
+      transaction.sign([this.keypair]);
+    } else {
+      transaction.partialSign(this.keypair);
+    }
+    return transaction;
+  }
+}
@@ -0,0 +1,81 @@
+// /src/lib/security/RemoteSigner.ts
+// Purpose: Signs transactions through a remote HTTP signing service that holds the key
+
+import { PublicKey } from '@solana/web3.js';
+import { SignableTransaction, TransactionSigner, attachSignature, getMessageBytes } from './TransactionSigner.js';
+
+/**
+ * Remote signer settings
+ */
+export interface RemoteSignerOptions {
+  url: string;
+  // Bearer token for the signing service
+  token?: string;
+  // Public key the service must sign with
+  expectedPublicKey: PublicKey;
+  timeoutMs: number;
+}
+
+/**
+ * RemoteSigner class for an HTTP signing service
+ * Protocol: GET {url}/public-key -> { publicKey }, POST {url}/sign { publicKey, message } -> { signature } (base64 bytes)
+ */
+export class RemoteSigner implements TransactionSigner {
+  readonly kind = 'remote' as const;
+  private readonly options: RemoteSignerOptions;
+  private readonly baseUrl: string;
+  private connected: boolean = false;
+
+  constructor(options: RemoteSignerOptions) {
+    if (!options.url) throw new Error('Remote signer URL is required');
+    this.options = options;
+    this.baseUrl = options.url.replace(/\/+$/, '');
+  }
+
+  /**
+   * Confirm the service signs with the configured key
+   */
+  async connect(): Promise<void> {
+    const { publicKey } = await this.request<{ publicKey: string }>('GET', '/public-key');
+    if (publicKey !== this.options.expectedPublicKey.toBase58()) {
+      throw new Error(`Remote signer key ${publicKey} does not match configured signer ${this.options.expectedPublicKey.toBase58()}`);
+    }
+    this.connected = true;
+    console.log(`🔐 Remote signer connected: ${publicKey}`);
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  getPublicKey(): PublicKey {
+    return this.options.expectedPublicKey;
+  }
+
+  async signTransaction<T extends SignableTransaction>(transaction: T): Promise<T> {
+    if (!this.connected) throw new Error('Remote signer not connected');
+
+    const { signature } = await this.request<{ signature: string }>('POST', '/sign', {
+      publicKey: this.options.expectedPublicKey.toBase58(),
+      message: getMessageBytes(transaction).toString('base64'),
+    });
+    return attachSignature(transaction, this.options.expectedPublicKey, Buffer.from(signature, 'base64'));
+  }
+
+  /**
+   * Issue a JSON request to the signing service
+   */
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.token) headers.Authorization = `Bearer ${this.options.token}`;
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(this.options.timeoutMs),
+    });
+    if (!response.ok) throw new Error(`Remote signer ${path} failed with HTTP ${response.status}`);
+    return await response.json() as T;
+  }
+}
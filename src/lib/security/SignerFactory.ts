@@ -0,0 +1,46 @@
+// /src/lib/security/SignerFactory.ts
+// Purpose: Builds the configured TransactionSigner backend
+
+import { PublicKey } from '@solana/web3.js';
+import { SecurityConfig } from '../../config/BotConfig.js';
+import { BotWallet } from './BotWallet.js';
+import { HardwareSecurityModule } from './HardwareSecurityModule.js';
+import { KeypairSigner } from './KeypairSigner.js';
+import { RemoteSigner } from './RemoteSigner.js';
+import { PolicySigner, SigningPolicy } from './SigningPolicy.js';
+import { TransactionSigner } from './TransactionSigner.js';
+import { AuditLog } from '../../monitoring/AuditLog.js';
+import { solToLamports } from '../pumpfun/BondingCurveMath.js';
+
+/**
+ * Create the signer selected by security.signer, behind the signing policy
+ * Only the local signer loads secret material into this process
+ * @param security Validated security configuration
+ */
+export function createTransactionSigner(security: SecurityConfig): TransactionSigner {
+  const policy = new SigningPolicy({
+    maxOutflowLamports: solToLamports(security.maxSolPerTransaction),
+    maxTipLamports: BigInt(security.maxTipLamports),
+    allowedDestinations: security.allowedDestinations.map(address => new PublicKey(address)),
+  });
+  return new PolicySigner(createBackend(security), policy, new AuditLog(security.auditLogPath));
+}
+
+function createBackend(security: SecurityConfig): TransactionSigner {
+  switch (security.signer) {
+    case 'ledger':
+      return new HardwareSecurityModule({
+        derivationPath: security.ledgerDerivationPath,
+        expectedPublicKey: new PublicKey(security.signerPublicKey!),
+      });
+    case 'remote':
+      return new RemoteSigner({
+        url: security.remoteSignerUrl!,
+        token: security.remoteSignerToken,
+        expectedPublicKey: new PublicKey(security.signerPublicKey!),
+        timeoutMs: security.remoteSignerTimeout,
+      });
+    case 'local':
+      return new KeypairSigner(BotWallet.load(security).getKeypair());
+  }
+}
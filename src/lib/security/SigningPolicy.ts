@@ -0,0 +1,392 @@
+// /src/lib/security/SigningPolicy.ts
+// Purpose: Vets compiled transaction messages against allowed programs and instructions, SOL outflow, tip and destination limits before signing
+
+import {
+  ComputeBudgetProgram,
+  MessageCompiledInstruction,
+  PublicKey,
+  SystemProgram,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { PUMP_FUN_PROGRAM_ID } from '../pumpfun/BondingCurveAccount.js';
+import { PUMP_SWAP_PROGRAM_ID, WSOL_MINT } from '../pumpswap/PumpSwapPool.js';
+import { AuditLog } from '../../monitoring/AuditLog.js';
+import { SignableTransaction, SignerKind, TransactionSigner } from './TransactionSigner.js';
+
+export const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+
+// Jito mainnet tip accounts; tips are plain System transfers to one of these
+export const JITO_TIP_ACCOUNTS: readonly PublicKey[] = [
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
+].map(address => new PublicKey(address));
+
+// Pump.fun and PumpSwap share Anchor discriminators; the buy's max SOL/quote cost is its second u64 argument
+const BUY_DISCRIMINATOR = Buffer.from([102, 6, 61, 18, 1, 218, 235, 234]);
+const BUY_MAX_COST_OFFSET = 16;
+const SELL_DISCRIMINATOR = Buffer.from([51, 230, 133, 164, 1, 127, 131, 173]);
+// The SDKs prepend this when a curve or pool account predates the current layout
+const EXTEND_ACCOUNT_DISCRIMINATOR = Buffer.from([234, 102, 194, 203, 150, 72, 62, 229]);
+
+// System program instruction indexes
+const SYSTEM_CREATE_ACCOUNT = 0;
+const SYSTEM_TRANSFER = 2;
+const SYSTEM_CREATE_ACCOUNT_WITH_SEED = 3;
+const SYSTEM_ADVANCE_NONCE = 4;
+const SYSTEM_INITIALIZE_NONCE = 6;
+
+// Compute budget instructions the transaction builder emits
+const COMPUTE_BUDGET_KINDS = new Set([
+  2, // SetComputeUnitLimit
+  3, // SetComputeUnitPrice
+]);
+
+// Associated token account instructions; Create carries no data
+const ASSOCIATED_TOKEN_KINDS = new Set([
+  0, // Create
+  1, // CreateIdempotent
+]);
+
+// SPL token instructions that may be signed at all
+const TOKEN_KINDS = new Set([
+  3, // Transfer
+  4, // Approve
+  5, // Revoke
+  6, // SetAuthority
+  9, // CloseAccount
+  12, // TransferChecked
+  13, // ApproveChecked
+  17, // SyncNative
+]);
+const TOKEN_SET_AUTHORITY = 6;
+
+// SPL token instructions that move tokens or lamports, with the index of their destination account
+const TOKEN_DESTINATION_ACCOUNT: Record<number, number> = {
+  3: 1, // Transfer
+  9: 1, // CloseAccount
+  12: 2, // TransferChecked
+};
+
+// SPL token instructions that grant a delegate, with the index of the delegate account
+const TOKEN_DELEGATE_ACCOUNT: Record<number, number> = {
+  4: 1, // Approve
+  13: 2, // ApproveChecked
+};
+
+export type PolicyViolationCode =
+  | 'FEE_PAYER_MISMATCH'
+  | 'PROGRAM_NOT_ALLOWED'
+  | 'INSTRUCTION_NOT_ALLOWED'
+  | 'UNRESOLVED_ACCOUNT'
+  | 'DESTINATION_NOT_ALLOWED'
+  | 'SOL_OUTFLOW_EXCEEDED'
+  | 'TIP_EXCEEDED';
+
+/**
+ * Rejection raised before any signature is produced
+ */
+export class PolicyViolationError extends Error {
+  readonly code: PolicyViolationCode;
+  readonly details: Record<string, unknown>;
+
+  constructor(code: PolicyViolationCode, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'PolicyViolationError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Signing policy limits
+ */
+export interface SigningPolicyOptions {
+  // Largest SOL amount (lamports) a single transaction may spend: transfers, account rent and buy max costs
+  maxOutflowLamports: bigint;
+  // Largest total Jito tip (lamports) per transaction
+  maxTipLamports: bigint;
+  // Accounts that may receive SOL or tokens besides the signer, its WSOL account and Jito tip accounts
+  allowedDestinations?: PublicKey[];
+  // Programs allowed in addition to the defaults
+  extraPrograms?: PublicKey[];
+}
+
+/**
+ * What a transaction does with the signer's funds
+ */
+export interface TransactionSummary {
+  programs: string[];
+  outflowLamports: bigint;
+  tipLamports: bigint;
+}
+
+/**
+ * SigningPolicy class inspecting compiled messages
+ */
+export class SigningPolicy {
+  private readonly options: SigningPolicyOptions;
+  private readonly allowedPrograms: Set<string>;
+  private readonly allowedDestinations: Set<string>;
+  private readonly tipAccounts = new Set(JITO_TIP_ACCOUNTS.map(account => account.toBase58()));
+
+  constructor(options: SigningPolicyOptions) {
+    this.options = options;
+    this.allowedPrograms = new Set([
+      PUMP_FUN_PROGRAM_ID,
+      PUMP_SWAP_PROGRAM_ID,
+      SystemProgram.programId,
+      TOKEN_PROGRAM_ID,
+      ASSOCIATED_TOKEN_PROGRAM_ID,
+      ComputeBudgetProgram.programId,
+      ...(options.extraPrograms ?? []),
+    ].map(program => program.toBase58()));
+    this.allowedDestinations = new Set((options.allowedDestinations ?? []).map(account => account.toBase58()));
+  }
+
+  /**
+   * Check a transaction signed by signerKey
+   * @throws PolicyViolationError on the first violated rule
+   */
+  evaluate(transaction: SignableTransaction, signerKey: PublicKey): TransactionSummary {
+    const message = transaction instanceof VersionedTransaction ? transaction.message : transaction.compileMessage();
+    const accountKeys = message.staticAccountKeys;
+
+    if (!accountKeys[0]?.equals(signerKey)) {
+      throw new PolicyViolationError('FEE_PAYER_MISMATCH', `Fee payer ${accountKeys[0]?.toBase58()} is not the signer`, {
+        feePayer: accountKeys[0]?.toBase58(),
+      });
+    }
+
+    const resolve = (index: number | undefined): PublicKey => {
+      const key = index === undefined ? undefined : accountKeys[index];
+      if (!key) {
+        throw new PolicyViolationError('UNRESOLVED_ACCOUNT', `Account #${index} is loaded from a lookup table`, { index });
+      }
+      return key;
+    };
+
+    const ownDestinations = new Set([signerKey.toBase58(), deriveWsolAccount(signerKey).toBase58()]);
+    const programs = new Set<string>();
+    let outflowLamports = 0n;
+    let tipLamports = 0n;
+
+    for (const instruction of message.compiledInstructions) {
+      const programId = resolve(instruction.programIdIndex);
+      const program = programId.toBase58();
+      if (!this.allowedPrograms.has(program)) {
+        throw new PolicyViolationError('PROGRAM_NOT_ALLOWED', `Program ${program} is not allowed`, { program });
+      }
+      programs.add(program);
+      const data = Buffer.from(instruction.data);
+      const account = (position: number) => resolve(instruction.accountKeyIndexes[position]);
+
+      if (programId.equals(SystemProgram.programId)) {
+        const spent = this.checkSystemInstruction(data, account, signerKey, ownDestinations);
+        outflowLamports += spent.lamports;
+        if (spent.tip) tipLamports += spent.lamports;
+      } else if (programId.equals(TOKEN_PROGRAM_ID)) {
+        this.checkTokenInstruction(data, instruction, account, signerKey, ownDestinations);
+      } else if (programId.equals(PUMP_FUN_PROGRAM_ID) || programId.equals(PUMP_SWAP_PROGRAM_ID)) {
+        if (isBuy(data)) {
+          outflowLamports += data.readBigUInt64LE(BUY_MAX_COST_OFFSET);
+        } else if (!hasDiscriminator(data, SELL_DISCRIMINATOR) && !hasDiscriminator(data, EXTEND_ACCOUNT_DISCRIMINATOR)) {
+          throw new PolicyViolationError('INSTRUCTION_NOT_ALLOWED', `Instruction ${data.subarray(0, 8).toString('hex')} of ${program} is not allowed`, {
+            program,
+            discriminator: data.subarray(0, 8).toString('hex'),
+          });
+        }
+      } else if (programId.equals(ComputeBudgetProgram.programId)) {
+        requireKind(COMPUTE_BUDGET_KINDS, data[0] ?? -1, 'Compute budget');
+      } else if (programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+        requireKind(ASSOCIATED_TOKEN_KINDS, data[0] ?? 0, 'Associated token');
+      }
+    }
+
+    if (tipLamports > this.options.maxTipLamports) {
+      throw new PolicyViolationError('TIP_EXCEEDED', `Tip ${tipLamports} lamports exceeds limit ${this.options.maxTipLamports}`, {
+        tipLamports: tipLamports.toString(),
+      });
+    }
+    if (outflowLamports > this.options.maxOutflowLamports) {
+      throw new PolicyViolationError(
+        'SOL_OUTFLOW_EXCEEDED',
+        `SOL outflow ${outflowLamports} lamports exceeds limit ${this.options.maxOutflowLamports}`,
+        { outflowLamports: outflowLamports.toString() }
+      );
+    }
+
+    return { programs: [...programs], outflowLamports, tipLamports };
+  }
+
+  /**
+   * Returns lamports the signer pays out; only transfers, account creation and nonce setup and advances are allowed
+   * Transfers into the signer's own accounts are not outflow
+   */
+  private checkSystemInstruction(
+    data: Buffer,
+    account: (position: number) => PublicKey,
+    signerKey: PublicKey,
+    ownDestinations: Set<string>
+  ): { lamports: bigint; tip: boolean } {
+    const kind = data.length >= 4 ? data.readUInt32LE(0) : -1;
+    if (kind === SYSTEM_ADVANCE_NONCE) return { lamports: 0n, tip: false };
+    if (kind === SYSTEM_INITIALIZE_NONCE) {
+      // A nonce account under another authority could be withdrawn by it
+      const authority = new PublicKey(data.subarray(4, 36));
+      if (!authority.equals(signerKey)) {
+        throw new PolicyViolationError('INSTRUCTION_NOT_ALLOWED', `Nonce authority ${authority.toBase58()} is not the signer`, {
+          authority: authority.toBase58(),
+        });
+      }
+      return { lamports: 0n, tip: false };
+    }
+    if (kind !== SYSTEM_TRANSFER && kind !== SYSTEM_CREATE_ACCOUNT && kind !== SYSTEM_CREATE_ACCOUNT_WITH_SEED) {
+      throw new PolicyViolationError('INSTRUCTION_NOT_ALLOWED', `System instruction ${kind} is not allowed`, { kind });
+    }
+
+    // CreateAccountWithSeed puts the base key and a length-prefixed seed before the lamports
+    const lamports = kind === SYSTEM_CREATE_ACCOUNT_WITH_SEED
+      ? data.readBigUInt64LE(44 + data.readUInt32LE(36))
+      : data.readBigUInt64LE(4);
+    if (!account(0).equals(signerKey)) return { lamports: 0n, tip: false };
+
+    // New accounts are funded with rent only; the destination is a fresh or derived account, not a transfer target
+    if (kind === SYSTEM_CREATE_ACCOUNT || kind === SYSTEM_CREATE_ACCOUNT_WITH_SEED) return { lamports, tip: false };
+
+    const destination = account(1).toBase58();
+    // Wrapping SOL for a PumpSwap buy stays with the signer; the buy's max cost already counts what leaves
+    if (ownDestinations.has(destination)) return { lamports: 0n, tip: false };
+    const tip = this.tipAccounts.has(destination);
+    if (!tip && !this.allowedDestinations.has(destination)) {
+      throw new PolicyViolationError('DESTINATION_NOT_ALLOWED', `Transfer to ${destination} is not allowed`, {
+        destination,
+        lamports: lamports.toString(),
+      });
+    }
+    return { lamports, tip };
+  }
+
+  /**
+   * Token transfers and account closes may only pay the signer or allowed destinations;
+   * delegates and authorities may only be handed to the signer
+   */
+  private checkTokenInstruction(
+    data: Buffer,
+    instruction: MessageCompiledInstruction,
+    account: (position: number) => PublicKey,
+    signerKey: PublicKey,
+    ownDestinations: Set<string>
+  ): void {
+    const kind = data[0] ?? -1;
+    requireKind(TOKEN_KINDS, kind, 'Token');
+
+    const delegatePosition = TOKEN_DELEGATE_ACCOUNT[kind];
+    if (delegatePosition !== undefined && !account(delegatePosition).equals(signerKey)) {
+      const delegate = account(delegatePosition).toBase58();
+      throw new PolicyViolationError('INSTRUCTION_NOT_ALLOWED', `Token instruction ${kind} delegates to ${delegate}`, { kind, delegate });
+    }
+    if (kind === TOKEN_SET_AUTHORITY) {
+      // Data: kind, authority type, then an optional new authority (tag byte + key); clearing it is refused too
+      const authority = data.length >= 35 && data[2] === 1 ? new PublicKey(data.subarray(3, 35)) : undefined;
+      if (!authority?.equals(signerKey)) {
+        throw new PolicyViolationError('INSTRUCTION_NOT_ALLOWED', `Token authority moves to ${authority?.toBase58() ?? 'nobody'}`, {
+          kind,
+          authority: authority?.toBase58(),
+        });
+      }
+    }
+
+    const position = TOKEN_DESTINATION_ACCOUNT[kind];
+    if (position === undefined || instruction.accountKeyIndexes.length <= position) return;
+
+    const destination = account(position).toBase58();
+    if (!ownDestinations.has(destination) && !this.allowedDestinations.has(destination)) {
+      throw new PolicyViolationError('DESTINATION_NOT_ALLOWED', `Token instruction ${kind} pays ${destination}`, {
+        destination,
+      });
+    }
+  }
+}
+
+/**
+ * PolicySigner class enforcing a SigningPolicy in front of any signer
+ */
+export class PolicySigner implements TransactionSigner {
+  private readonly inner: TransactionSigner;
+  private readonly policy: SigningPolicy;
+  private readonly auditLog: AuditLog;
+
+  constructor(inner: TransactionSigner, policy: SigningPolicy, auditLog: AuditLog) {
+    this.inner = inner;
+    this.policy = policy;
+    this.auditLog = auditLog;
+  }
+
+  get kind(): SignerKind {
+    return this.inner.kind;
+  }
+
+  connect(): Promise<void> {
+    return this.inner.connect();
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  getPublicKey(): PublicKey {
+    return this.inner.getPublicKey();
+  }
+
+  async signTransaction<T extends SignableTransaction>(transaction: T): Promise<T> {
+    try {
+      this.policy.evaluate(transaction, this.inner.getPublicKey());
+    } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        await this.auditLog.record('signing_rejected', {
+          signer: this.inner.getPublicKey().toBase58(),
+          code: error.code,
+          reason: error.message,
+          ...error.details,
+        });
+        console.error(`🛑 Signing rejected (${error.code}): ${error.message}`);
+      }
+      throw error;
+    }
+    return this.inner.signTransaction(transaction);
+  }
+}
+
+function isBuy(data: Buffer): boolean {
+  return data.length >= BUY_MAX_COST_OFFSET + 8 && hasDiscriminator(data, BUY_DISCRIMINATOR);
+}
+
+function hasDiscriminator(data: Buffer, discriminator: Buffer): boolean {
+  return data.subarray(0, 8).equals(discriminator);
+}
+
+/**
+ * Allow-list check for programs whose instruction kind is the first data byte
+ */
+function requireKind(allowed: Set<number>, kind: number, label: string): void {
+  if (!allowed.has(kind)) {
+    throw new PolicyViolationError('INSTRUCTION_NOT_ALLOWED', `${label} instruction ${kind} is not allowed`, { kind });
+  }
+}
+
+/**
+ * Signer's wrapped-SOL associated token account (buys on PumpSwap fund it before swapping)
+ */
+function deriveWsolAccount(owner: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), TOKEN_PROGRAM_ID.toBuffer(), WSOL_MINT.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  )[0];
+}
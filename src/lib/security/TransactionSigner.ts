@@ -0,0 +1,58 @@
+// /src/lib/security/TransactionSigner.ts
+// Purpose: Signer contract shared by local keypair, Ledger and remote signing backends
+
+import { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { createPublicKey, verify } from 'node:crypto';
+
+export type SignerKind = 'local' | 'ledger' | 'remote';
+
+export type SignableTransaction = Transaction | VersionedTransaction;
+
+/**
+ * Transaction signer with an explicit connection lifecycle
+ * connect() is called once at startup and disconnect() at shutdown, never per order
+ */
+export interface TransactionSigner {
+  readonly kind: SignerKind;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  getPublicKey(): PublicKey;
+  signTransaction<T extends SignableTransaction>(transaction: T): Promise<T>;
+}
+
+// DER prefix of an ed25519 SubjectPublicKeyInfo; the 32 raw key bytes follow it
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Serialized message bytes a signer must sign
+ */
+export function getMessageBytes(transaction: SignableTransaction): Buffer {
+  return transaction instanceof VersionedTransaction
+    ? Buffer.from(transaction.message.serialize())
+    : transaction.serializeMessage();
+}
+
+/**
+ * Check an ed25519 signature over a message
+ */
+export function verifySignature(message: Uint8Array, signature: Uint8Array, publicKey: PublicKey): boolean {
+  const key = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey.toBuffer()]),
+    format: 'der',
+    type: 'spki',
+  });
+  return verify(null, message, key, signature);
+}
+
+/**
+ * Verify a signature produced outside this process and attach it to the transaction
+ * @throws Error if the signature does not belong to publicKey
+ */
+export function attachSignature<T extends SignableTransaction>(transaction: T, publicKey: PublicKey, signature: Uint8Array): T {
+  if (signature.length !== 64) throw new Error(`Invalid signature length ${signature.length}`);
+  if (!verifySignature(getMessageBytes(transaction), signature, publicKey)) {
+    throw new Error(`Signature does not verify against ${publicKey.toBase58()}`);
+  }
+  transaction.addSignature(publicKey, Buffer.from(signature));
+  return transaction;
+}
@@ -0,0 +1,40 @@
+// /src/monitoring/AuditLog.ts
+// Purpose: Append-only JSON-lines audit trail for security-relevant events
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+/**
+ * Audit log entry written as one JSON line
+ */
+export interface AuditEntry {
+  timestamp: string;
+  event: string;
+  [key: string]: unknown;
+}
+
+/**
+ * AuditLog class appending entries to a local file
+ */
+export class AuditLog {
+  private readonly path: string;
+  private ready: Promise<unknown> | null = null;
+
+  constructor(path: string) {
+    if (!path) throw new Error('Audit log path is required');
+    this.path = path;
+  }
+
+  /**
+   * Append an event; callers await it so the entry is on disk before they act
+   * @param event Event name, e.g. 'signing_rejected'
+   * @param details Event fields; must not contain secret material
+   */
+  async record(event: string, details: Record<string, unknown> = {}): Promise<AuditEntry> {
+    const entry: AuditEntry = { timestamp: new Date().toISOString(), event, ...details };
+    this.ready ??= mkdir(dirname(this.path), { recursive: true });
+    await this.ready;
+    await appendFile(this.path, `${JSON.stringify(entry)}\n`, 'utf8');
+    return entry;
+  }
+}
@@ -49,10 +49,10 @@ export class GrafanaIntegration {
 
     return new Promise((resolve, reject) => {
       this.server?.listen(this.port, () => {
-        console.log(\`🌐 Metrics server started on http://localhost:\${this.port}/metrics\`);
+        console.log(`🌐 Metrics server started on http://localhost:${this.port}/metrics`);
         resolve();
       }).on('error', (error) => {
-        console.error(\`❌ Failed to start metrics server: \${error.message}\`);
+        console.error(`❌ Failed to start metrics server: ${error.message}`);
         reject(error);
       });
     });
@@ -68,27 +68,51 @@ export class GrafanaIntegration {
 
     lines.push(`# HELP trade_latency_avg_ms Average trade latency in milliseconds`);
     lines.push(`# TYPE trade_latency_avg_ms gauge`);
-    lines.push(\`trade_latency_avg_ms{\${labels}} \${snapshot.avgLatencyMs}\`);
+    lines.push(`trade_latency_avg_ms{${labels}} ${snapshot.avgLatencyMs}`);
 
     lines.push(`# HELP trade_latency_p99_ms P99 trade latency in milliseconds`);
     lines.push(`# TYPE trade_latency_p99_ms gauge`);
-    lines.push(\`trade_latency_p99_ms{\${labels}} \${snapshot.p99LatencyMs}\`);
+    lines.push(`trade_latency_p99_ms{${labels}} ${snapshot.p99LatencyMs}`);
 
     lines.push(`# HELP trade_success_rate Success rate of trades (0-1)`);
     lines.push(`# TYPE trade_success_rate gauge`);
-    lines.push(\`trade_success_rate{\${labels}} \${snapshot.successRate}\`);
+    lines.push(`trade_success_rate{${labels}} ${snapshot.successRate}`);
 
     lines.push(`# HELP trade_failure_count Total number of failed trades`);
     lines.push(`# TYPE trade_failure_count counter`);
-    lines.push(\`trade_failure_count{\${labels}} \${snapshot.failureCount}\`);
+    lines.push(`trade_failure_count{${labels}} ${snapshot.failureCount}`);
+
+    lines.push(`# HELP simulation_count Total number of preflight simulations`);
+    lines.push(`# TYPE simulation_count counter`);
+    lines.push(`simulation_count{${labels}} ${snapshot.simulationCount}`);
+
+    lines.push(`# HELP simulation_failure_count Preflight simulations that failed`);
+    lines.push(`# TYPE simulation_failure_count counter`);
+    lines.push(`simulation_failure_count{${labels}} ${snapshot.simulationFailureCount}`);
+
+    lines.push(`# HELP simulation_latency_avg_ms Average preflight simulation latency in milliseconds`);
+    lines.push(`# TYPE simulation_latency_avg_ms gauge`);
+    lines.push(`simulation_latency_avg_ms{${labels}} ${snapshot.avgSimulationLatencyMs}`);
+
+    lines.push(`# HELP jito_tips_paid_lamports_total Jito tips paid by landed orders`);
+    lines.push(`# TYPE jito_tips_paid_lamports_total counter`);
+    lines.push(`jito_tips_paid_lamports_total{${labels}} ${snapshot.tipsPaidLamports}`);
+
+    lines.push(`# HELP fill_mismatch_count Landed orders whose confirmed fill differed from the request`);
+    lines.push(`# TYPE fill_mismatch_count counter`);
+    lines.push(`fill_mismatch_count{${labels}} ${snapshot.fillMismatchCount}`);
+
+    lines.push(`# HELP blockhash_age_ms Age of the prefetched blockhash in milliseconds`);
+    lines.push(`# TYPE blockhash_age_ms gauge`);
+    lines.push(`blockhash_age_ms{${labels}} ${Number.isFinite(snapshot.blockhashAgeMs) ? snapshot.blockhashAgeMs : '+Inf'}`);
 
     lines.push(`# HELP system_cpu_usage_percent CPU usage percentage`);
     lines.push(`# TYPE system_cpu_usage_percent gauge`);
-    lines.push(\`system_cpu_usage_percent{\${labels}} \${snapshot.cpuUsagePercent}\`);
+    lines.push(`system_cpu_usage_percent{${labels}} ${snapshot.cpuUsagePercent}`);
 
     lines.push(`# HELP system_memory_usage_mb Memory usage in megabytes`);
     lines.push(`# TYPE system_memory_usage_mb gauge`);
-    lines.push(\`system_memory_usage_mb{\${labels}} \${snapshot.memoryUsageMb}\`);
+    lines.push(`system_memory_usage_mb{${labels}} ${snapshot.memoryUsageMb}`);
 
     return lines.join('\n') + '\n';
   }
@@ -101,7 +125,7 @@ export class GrafanaIntegration {
     return new Promise((resolve, reject) => {
       this.server?.close((err) => {
         if (err) {
-          console.error(\`❌ Failed to stop metrics server: \${err.message}\`);
+          console.error(`❌ Failed to stop metrics server: ${err.message}`);
           reject(err);
         } else {
           console.log('⏹️ Metrics server stopped');
@@ -0,0 +1,170 @@
+// /src/monitoring/MetricsCollector.ts
+// Purpose: Collects trade and simulation metrics in memory and mirrors lifetime counters to Redis
+
+import Redis from 'ioredis';
+
+/**
+ * Outcome of a single order
+ */
+export interface TradeMetric {
+  success: boolean;
+  transactionId: string;
+  executionTime: number;
+  slippageAchieved: number;
+  // Jito tip paid in lamports (landed orders only)
+  tipPaid?: number;
+  // Submission path that landed the order
+  landedVia?: 'jito' | 'rpc';
+  // Whether the confirmed fill matched the request; unset when the fill could not be read
+  fillMismatch?: boolean;
+  // Lamports the fill actually moved to or from the venue
+  filledLamports?: number;
+}
+
+/**
+ * Outcome of a preflight simulation
+ */
+export interface SimulationMetric {
+  success: boolean;
+  latencyMs: number;
+  unitsConsumed?: number;
+  // Failure classification, e.g. 'slippage' or 'insufficient_funds'
+  reason?: string;
+}
+
+/**
+ * Point-in-time view exported to Grafana
+ */
+export interface MetricsSnapshot {
+  avgLatencyMs: number;
+  p99LatencyMs: number;
+  successRate: number;
+  successCount: number;
+  failureCount: number;
+  simulationCount: number;
+  simulationFailureCount: number;
+  avgSimulationLatencyMs: number;
+  tipsPaidLamports: number;
+  fillMismatchCount: number;
+  // Age of the prefetched blockhash; Infinity before the first fetch
+  blockhashAgeMs: number;
+  cpuUsagePercent: number;
+  memoryUsageMb: number;
+}
+
+// Rolling window of recent latencies used for averages and percentiles
+const LATENCY_WINDOW = 1000;
+
+/**
+ * MetricsCollector class for trade execution metrics
+ */
+export class MetricsCollector {
+  private readonly redis: Redis;
+  private readonly keyPrefix = 'metrics:';
+  private readonly tradeLatencies: number[] = [];
+  private readonly simulationLatencies: number[] = [];
+  private successCount = 0;
+  private failureCount = 0;
+  private simulationCount = 0;
+  private simulationFailureCount = 0;
+  private tipsPaidLamports = 0;
+  private fillMismatchCount = 0;
+  private lastCpuUsage = process.cpuUsage();
+  private lastCpuSampleAt = Date.now();
+  private blockhashAgeSource: () => number = () => Infinity;
+
+  constructor(redis: Redis) {
+    if (!redis) throw new Error('Redis client is required');
+    this.redis = redis;
+  }
+
+  /**
+   * Record a finished order
+   */
+  async recordTrade(metric: TradeMetric): Promise<void> {
+    if (metric.success) this.successCount++;
+    else this.failureCount++;
+    pushWindowed(this.tradeLatencies, metric.executionTime);
+    this.incrementCounter('trades', metric.success ? 'success' : 'failure');
+    if (metric.tipPaid) {
+      this.tipsPaidLamports += metric.tipPaid;
+      this.incrementCounter('trades', 'tipsPaidLamports', metric.tipPaid);
+    }
+    if (metric.landedVia) this.incrementCounter('landed', metric.landedVia);
+    if (metric.fillMismatch !== undefined) this.incrementCounter('fills', metric.fillMismatch ? 'mismatch' : 'matched');
+    if (metric.fillMismatch) this.fillMismatchCount++;
+    if (metric.filledLamports) this.incrementCounter('fills', 'filledLamports', metric.filledLamports);
+  }
+
+  /**
+   * Record a preflight simulation
+   */
+  async recordSimulation(metric: SimulationMetric): Promise<void> {
+    this.simulationCount++;
+    if (!metric.success) this.simulationFailureCount++;
+    pushWindowed(this.simulationLatencies, metric.latencyMs);
+    this.incrementCounter('simulations', metric.success ? 'success' : metric.reason ?? 'failure');
+  }
+
+  /**
+   * Read blockhash staleness at snapshot time, so it keeps growing while refreshes fail
+   */
+  setBlockhashAgeSource(source: () => number): void {
+    this.blockhashAgeSource = source;
+  }
+
+  /**
+   * Current metrics; CPU usage covers the time since the previous snapshot
+   */
+  async getMetricsSnapshot(): Promise<MetricsSnapshot> {
+    const total = this.successCount + this.failureCount;
+    return {
+      avgLatencyMs: average(this.tradeLatencies),
+      p99LatencyMs: percentile(this.tradeLatencies, 0.99),
+      successRate: total === 0 ? 0 : this.successCount / total,
+      successCount: this.successCount,
+      failureCount: this.failureCount,
+      simulationCount: this.simulationCount,
+      simulationFailureCount: this.simulationFailureCount,
+      avgSimulationLatencyMs: average(this.simulationLatencies),
+      tipsPaidLamports: this.tipsPaidLamports,
+      fillMismatchCount: this.fillMismatchCount,
+      blockhashAgeMs: this.blockhashAgeSource(),
+      cpuUsagePercent: this.sampleCpuUsage(),
+      memoryUsageMb: Math.round(process.memoryUsage().rss / 1024 / 1024),
+    };
+  }
+
+  private sampleCpuUsage(): number {
+    const now = Date.now();
+    const usage = process.cpuUsage(this.lastCpuUsage);
+    const elapsedMs = Math.max(now - this.lastCpuSampleAt, 1);
+    this.lastCpuUsage = process.cpuUsage();
+    this.lastCpuSampleAt = now;
+    return Math.round(((usage.user + usage.system) / 1000 / elapsedMs) * 10000) / 100;
+  }
+
+  /**
+   * Lifetime counters survive restarts; failures to persist never block trading
+   */
+  private incrementCounter(hash: string, field: string, by: number = 1): void {
+    this.redis.hincrby(`${this.keyPrefix}${hash}`, field, by).catch(error =>
+      console.error(`❌ Failed to persist ${hash} metric: ${(error as Error).message}`)
+    );
+  }
+}
+
+function pushWindowed(window: number[], value: number): void {
+  window.push(value);
+  if (window.length > LATENCY_WINDOW) window.shift();
+}
+
+function average(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)] ?? 0;
+}
@@ -0,0 +1,72 @@
+// /src/orchestrator/FairOrderQueue.ts
+// Purpose: Shares order execution slots between tokens round-robin so one busy token cannot starve the rest
+
+interface QueuedTask {
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * FairOrderQueue class limiting concurrent orders and serving tokens in turn
+ */
+export class FairOrderQueue {
+  private readonly maxConcurrent: number;
+  private readonly queues = new Map<string, QueuedTask[]>();
+  // Token -> sequence number of its last served task; the least recently served token with work goes next
+  private readonly lastServed = new Map<string, number>();
+  private served = 0;
+  private running = 0;
+
+  constructor(maxConcurrent: number) {
+    if (maxConcurrent < 1) throw new Error('At least one concurrent order is required');
+    this.maxConcurrent = maxConcurrent;
+  }
+
+  /**
+   * Run a task once a slot is free and it is this token's turn
+   */
+  run<T>(tokenAddress: string, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const queue = this.queues.get(tokenAddress) ?? [];
+      queue.push({ run: task, resolve: resolve as (value: unknown) => void, reject });
+      this.queues.set(tokenAddress, queue);
+      this.drain();
+    });
+  }
+
+  /**
+   * Tasks waiting for a slot, across all tokens
+   */
+  pending(): number {
+    let count = 0;
+    for (const queue of this.queues.values()) count += queue.length;
+    return count;
+  }
+
+  private drain(): void {
+    while (this.running < this.maxConcurrent) {
+      const tokenAddress = this.nextToken();
+      if (!tokenAddress) return;
+      const task = this.queues.get(tokenAddress)!.shift()!;
+      this.lastServed.set(tokenAddress, ++this.served);
+
+      this.running++;
+      task.run()
+        .then(task.resolve, task.reject)
+        .finally(() => {
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+
+  private nextToken(): string | undefined {
+    let next: string | undefined;
+    for (const [tokenAddress, queue] of this.queues) {
+      if (queue.length === 0) continue;
+      if (next === undefined || (this.lastServed.get(tokenAddress) ?? 0) < (this.lastServed.get(next) ?? 0)) next = tokenAddress;
+    }
+    return next;
+  }
+}
@@ -5,9 +5,21 @@ import { Connection } from '@solana/web3.js';
 import { EventEmitter } from 'node:events';
 import { setInterval, clearInterval } from 'node:timers';
 import { PumpFunAdapter } from '../adapters/PumpFunAdapter.js';
-import { OrderRouter, OrderRouterConfig } from '../engine/OrderRouter.js';
+import { PumpSwapAdapter } from '../adapters/PumpSwapAdapter.js';
+import { OrderRequest, OrderRouter, OrderRouterConfig } from '../engine/OrderRouter.js';
 import { MarketStateManager } from '../state/MarketStateManager.js';
-import { BotConfigManager, BotConfig } from '../config/BotConfig.js';
+import { BondingCurveStream, CurveSnapshot } from '../state/BondingCurveStream.js';
+import { BotConfigManager, BotConfig, TradingConfig } from '../config/BotConfig.js';
+import { TransactionSigner } from '../lib/security/TransactionSigner.js';
+import { createTransactionSigner } from '../lib/security/SignerFactory.js';
+import { RpcPool } from '../lib/rpc/RpcPool.js';
+import { NonceManager } from '../engine/NonceManager.js';
+import { BlockhashPrefetcher } from '../engine/BlockhashPrefetcher.js';
+import { ExecutionEngine, ParentOrderProgress } from '../engine/ExecutionEngine.js';
+import { Strategy, StrategyDecision, StrategyOrder } from '../strategies/Strategy.js';
+import { StrategyRegistry, createDefaultRegistry } from '../strategies/StrategyRegistry.js';
+import { FairOrderQueue } from './FairOrderQueue.js';
+import { VolatilityEstimator } from '../lib/risk/VolatilityEstimator.js';
 import Redis from 'ioredis';
 
 /**
@@ -20,45 +32,158 @@ interface TradeReport {
   lastTradeTime: number;
 }
 
+/**
+ * A traded token with the portfolio overrides applied
+ */
+interface PortfolioEntry {
+  // Trading section with this token's base amount and spread
+  config: TradingConfig;
+  strategy: string;
+  maxPositionSol?: number;
+  cycleInterval: number;
+}
+
 /**
  * Orchestrator class to manage trading lifecycle and coordination
  */
 export class Orchestrator extends EventEmitter {
   private readonly config: BotConfig;
   private readonly connection: Connection;
+  private readonly rpcPool: RpcPool;
   private readonly redis: Redis;
+  private readonly signer: TransactionSigner;
+  private readonly nonceManager?: NonceManager;
+  private readonly chainState: BlockhashPrefetcher;
   private pumpAdapter: PumpFunAdapter;
+  private pumpSwapAdapter: PumpSwapAdapter;
   private orderRouter: OrderRouter;
+  // Works sliced orders (rebalances) as child orders through the router
+  private readonly executionEngine: ExecutionEngine;
+  // Realized volatility per token from curve updates and cycle spot prices
+  private readonly volatilityEstimator: VolatilityEstimator;
   private marketStateManager: MarketStateManager;
+  private curveStream: BondingCurveStream;
+  private readonly strategyRegistry: StrategyRegistry;
+  // Token address -> its strategy instance
+  private readonly strategies = new Map<string, Strategy>();
+  // Token address -> its settings; a single entry for targetToken outside portfolio mode
+  private readonly portfolio: Map<string, PortfolioEntry>;
+  private readonly orderQueue: FairOrderQueue;
+  // SOL of buys in flight, counted against the exposure cap until their fills land
+  private reservedExposure = 0;
   private isRunning: boolean = false;
-  private tradeInterval?: NodeJS.Timeout;
+  private readonly tradeIntervals = new Map<string, NodeJS.Timeout>();
+  // Tokens whose cycle is still running; their next tick is skipped
+  private readonly cyclesInFlight = new Set<string>();
   private tradeReport: TradeReport = { successCount: 0, failureCount: 0, totalLatencyMs: 0, lastTradeTime: 0 };
   private circuitBreaker: boolean = false;
+  // Graduated token -> PumpSwap pool address
+  private readonly graduatedTokens = new Map<string, string>();
 
-  constructor() {
+  /**
+   * @param strategyRegistry Strategies selectable through trading.strategy and trading.tokenStrategies
+   */
+  constructor(strategyRegistry: StrategyRegistry = createDefaultRegistry()) {
     super();
     const configManager = BotConfigManager.getInstance();
     this.config = configManager.getConfig();
-    this.connection = this.config.solana.connection;
+    this.portfolio = this.resolvePortfolio();
+    // Fail at startup rather than on the first cycle
+    for (const { strategy } of this.portfolio.values()) {
+      if (!strategyRegistry.has(strategy)) throw new Error(`Unknown strategy "${strategy}", registered: ${strategyRegistry.names().join(', ')}`);
+    }
+    this.orderQueue = new FairOrderQueue(this.config.trading.maxConcurrentOrders);
+    // Every RPC consumer shares the pool's facade so failover applies everywhere
+    this.rpcPool = new RpcPool([this.config.solana.rpcUrl, ...this.config.solana.rpcUrls], {
+      commitment: this.config.solana.commitment,
+      healthCheckIntervalMs: this.config.solana.rpcHealthCheckInterval,
+      maxSlotLag: this.config.solana.rpcMaxSlotLag,
+    });
+    this.connection = this.rpcPool.connection;
+    this.chainState = new BlockhashPrefetcher(this.connection, {
+      refreshIntervalMs: this.config.solana.blockhashRefreshInterval,
+      maxAgeMs: this.config.solana.maxBlockhashAge,
+      commitment: this.config.solana.commitment,
+    });
     this.redis = this.config.redis.redisClient;
 
+    this.signer = createTransactionSigner(this.config.security);
+    const walletPublicKey = this.signer.getPublicKey();
+    if (this.config.solana.noncePoolSize > 0) {
+      this.nonceManager = new NonceManager(this.connection, this.redis, this.signer, {
+        poolSize: this.config.solana.noncePoolSize,
+        leaseTtlMs: this.config.solana.nonceLeaseTtl,
+        commitment: this.config.solana.commitment,
+      });
+    }
+
     // Initialize dependencies with dependency injection
-    this.pumpAdapter = new PumpFunAdapter(this.redis, console, this.connection);
+    this.pumpAdapter = new PumpFunAdapter(this.redis, console, this.connection, walletPublicKey);
+    this.pumpSwapAdapter = new PumpSwapAdapter(this.redis, console, this.connection, walletPublicKey);
     this.orderRouter = new OrderRouter(
       {
         ...this.config.trading,
         ...this.config.jito,
         redisClient: this.redis,
+        signer: this.signer,
         solanaConnection: this.connection,
-        pumpFunAdapter: this.pumpAdapter,
+        adapters: [this.pumpAdapter, this.pumpSwapAdapter],
         circuitBreakerThreshold: 5,
         circuitBreakerTimeout: 30000,
+        maxRetries: this.config.solana.maxRetries,
+        nonceManager: this.nonceManager,
+        chainState: this.chainState,
       } as OrderRouterConfig,
       this.pumpAdapter,
-      this.connection,
       this.redis
     );
-    this.marketStateManager = new MarketStateManager(this.redis, this.connection);
+    this.marketStateManager = new MarketStateManager(this.redis);
+    const { trading } = this.config;
+    this.volatilityEstimator = new VolatilityEstimator({
+      barIntervalMs: trading.volatilityBarInterval,
+      ewmaLambda: trading.volatilityEwmaLambda,
+      window: trading.volatilityWindow,
+      targetVolatility: trading.volatilityTarget,
+      maxSpreadMultiplier: trading.maxSpreadMultiplier,
+    });
+    // Children take order slots like any other order so a long parent cannot starve other tokens
+    const queuedRouter = {
+      executeOrder: (request: OrderRequest) => this.orderQueue.run(request.tokenAddress, () => this.orderRouter.executeOrder({
+        ...request,
+        volatilityFactor: this.volatilityEstimator.getSpreadMultiplier(request.tokenAddress),
+      })),
+    };
+    this.executionEngine = new ExecutionEngine(queuedRouter, tokenAddress => this.getSolReserves(tokenAddress), {
+      durationMs: trading.executionDuration,
+      childIntervalMs: trading.executionChildInterval,
+      participationRate: trading.participationRate,
+      maxImpact: trading.maxChildImpact,
+      minChildSol: trading.minChildSol,
+      maxChildFailures: trading.maxChildFailures,
+    });
+    this.executionEngine.on('progress', (progress: ParentOrderProgress) => this.emit('parentOrderProgress', progress));
+    this.executionEngine.on('finished', (progress: ParentOrderProgress) => {
+      if (progress.status === 'failed') this.tradeReport.failureCount++;
+      else if (progress.executedSol > 0) this.tradeReport.successCount++;
+      this.emit('parentOrderFinished', progress);
+    });
+    this.strategyRegistry = strategyRegistry;
+
+    // Live bonding-curve prices over the configured WebSocket endpoint; resync reads go through the pool
+    const subscriptionConnection = new Connection(this.config.solana.rpcUrl, {
+      wsEndpoint: this.config.solana.wsUrl,
+      commitment: this.config.solana.commitment,
+    });
+    this.curveStream = new BondingCurveStream(this.connection, this.marketStateManager, {
+      commitment: this.config.solana.commitment,
+      staleAfterMs: this.config.solana.wsStaleTimeout,
+    }, subscriptionConnection);
+    this.curveStream.on('error', (error: Error) => console.error(`❌ Curve stream error: ${error.message}`));
+    this.curveStream.on('update', (snapshot: CurveSnapshot) => {
+      this.volatilityEstimator.observe(snapshot.tokenAddress, snapshot.price, snapshot.receivedAt);
+      if (snapshot.complete) this.handleGraduation(snapshot.tokenAddress).catch(error => this.handleError(error));
+    });
+    this.pumpAdapter.attachCurveStream(this.curveStream);
 
     this.emit('initialized', { status: 'ready' });
     console.log('🚀 Orchestrator initialized with configuration');
@@ -69,100 +194,302 @@ export class Orchestrator extends EventEmitter {
    */
   async start(): Promise<void> {
     if (this.isRunning) return;
-    this.isRunning = true;
-    this.circuitBreaker = false;
+    // Connect the signer once; orders never open a device or service session
+    await this.signer.connect();
 
-    // Schedule trade execution
-    this.tradeInterval = setInterval(async () => {
-      if (this.circuitBreaker) {
-        console.warn('⚠️ Circuit breaker active, halting trades');
-        return;
-      }
+    // Watch every token before scheduling any; a failed start leaves no token trading and nothing running
+    const watched: string[] = [];
+    try {
+      await this.rpcPool.start();
+      await this.chainState.start();
+      // Nonce accounts may need creating, which the signer pays for
+      await this.nonceManager?.initialize();
 
-      try {
-        await this.executeTradeCycle();
-      } catch (error) {
-        this.handleError(error as Error);
+      for (const tokenAddress of this.portfolio.keys()) {
+        const persisted = await this.marketStateManager.getMarketState(tokenAddress);
+        if (persisted?.ammPool) {
+          this.graduatedTokens.set(tokenAddress, persisted.ammPool);
+          this.orderRouter.markGraduated(tokenAddress);
+        } else {
+          // The subscription exists before the initial read, so a failed read still needs unwatching
+          watched.push(tokenAddress);
+          await this.curveStream.watch(tokenAddress);
+        }
       }
-    }, this.config.performance.metricsInterval);
+    } catch (error) {
+      await Promise.allSettled(watched.map(tokenAddress => this.curveStream.unwatch(tokenAddress)));
+      this.chainState.stop();
+      this.rpcPool.stop();
+      await this.signer.disconnect().catch(disconnectError => console.error(`❌ Failed to disconnect signer: ${disconnectError.message}`));
+      throw error;
+    }
+
+    this.isRunning = true;
+    this.circuitBreaker = false;
+    for (const [tokenAddress, entry] of this.portfolio) {
+      // Each token runs on its own schedule; the circuit breaker halts them all
+      this.tradeIntervals.set(tokenAddress, setInterval(async () => {
+        if (this.circuitBreaker) {
+          console.warn('⚠️ Circuit breaker active, halting trades');
+          return;
+        }
+        if (this.cyclesInFlight.has(tokenAddress)) return;
+
+        this.cyclesInFlight.add(tokenAddress);
+        try {
+          await this.executeTradeCycle(tokenAddress);
+        } catch (error) {
+          this.handleError(error as Error);
+        } finally {
+          this.cyclesInFlight.delete(tokenAddress);
+        }
+      }, entry.cycleInterval));
+    }
 
-    console.log('▶️ Orchestrator started');
+    console.log(`▶️ Orchestrator started with ${this.portfolio.size} token(s)`);
     this.emit('started');
   }
 
   /**
-   * Execute a single trade cycle with rebalancing
+   * Execute a single trade cycle: ask the token's strategy for orders, risk-check and execute them
    */
-  private async executeTradeCycle(): Promise<void> {
-    const tokenAddress = this.config.trading.targetToken;
+  private async executeTradeCycle(tokenAddress: string): Promise<void> {
+    const entry = this.portfolio.get(tokenAddress)!;
+    // The strategy would keep asking for the same rebalance while its children are still working
+    const parent = this.executionEngine.active(tokenAddress);
+    if (parent) {
+      const { algorithm, remainingSol } = parent.progress();
+      console.log(`🧩 ${algorithm} parent order working ${tokenAddress}, ${remainingSol} SOL remaining; skipping cycle`);
+      return;
+    }
+    if (!this.graduatedTokens.has(tokenAddress)) {
+      const snapshot = this.curveStream.getLatest(tokenAddress);
+      if (!snapshot) {
+        console.warn(`⏳ No live bonding curve data for ${tokenAddress} yet, skipping cycle`);
+        return;
+      }
+      // A completed curve accepts no trades; wait until the AMM pool is live
+      if (snapshot.complete && !(await this.handleGraduation(tokenAddress))) return;
+    }
+
     const state = await this.marketStateManager.getMarketState(tokenAddress);
 
     if (!state) {
       await this.marketStateManager.updatePosition(tokenAddress, 0);
       await this.marketStateManager.updateLiquidity(tokenAddress, 0);
-      console.log('📥 Initializing market state');
+      console.log(`📥 Initializing market state for ${tokenAddress}`);
     }
 
-    const positionSize = state?.positionSize || 0;
-    const liquidity = state?.liquidity || 0;
-    const rebalanceThreshold = this.config.trading.rebalanceThreshold;
+    // Graduated tokens have no curve stream, so cycle prices are their only observations
+    const spotPrice = await this.getSpotPrice(tokenAddress);
+    // Inventory marked to market; positionSize is the SOL cost basis and can be negative while tokens are held
+    const positionSol = (state?.tokenPosition ?? 0) * spotPrice;
+    this.volatilityEstimator.observe(tokenAddress, spotPrice);
+    const { volatility } = this.volatilityEstimator.estimate(tokenAddress);
+    await this.marketStateManager.updateVolatility(tokenAddress, volatility);
 
-    if (Math.abs(positionSize) > this.config.trading.maxPositionSize * rebalanceThreshold) {
-      await this.rebalancePosition(tokenAddress, positionSize);
-    } else {
-      await this.executeMarketOrder(tokenAddress);
+    const strategy = this.strategyFor(tokenAddress);
+    const decision = await strategy.evaluate({
+      tokenAddress,
+      marketState: state && { ...state, volatility },
+      positionSol,
+      spotPrice,
+      spreadMultiplier: this.volatilityEstimator.getSpreadMultiplier(tokenAddress),
+      config: entry.config,
+    });
+
+    const exposure = await this.marketStateManager.getPortfolioExposure([...this.portfolio.keys()]);
+    // No await between the check and the reservation, so concurrent cycles see each other's buys
+    const orders = this.applyRiskChecks(decision.orders, positionSol, entry, exposure + this.exposureInFlight());
+    const sliced = orders.filter(order => order.algorithm);
+    const direct = orders.filter(order => !order.algorithm);
+    if (orders.length === 0) {
+      console.log(`⏸️ ${strategy.name}: holding ${tokenAddress}, ${decision.reason} (spot ${decision.spotPrice}, reference ${decision.referencePrice})`);
+    }
+    // Parent buys count against the exposure cap through their remaining size
+    for (const order of sliced) {
+      this.executionEngine.start({
+        tokenAddress,
+        side: order.side,
+        totalSol: order.sizeSol,
+        algorithm: order.algorithm!,
+        maxSlippageBps: Math.round(this.config.trading.maxSlippage * 10000),
+      });
+    }
+    if (direct.length > 0) {
+      const reserved = direct.reduce((total, order) => total + (order.side === 'buy' ? order.sizeSol : 0), 0);
+      this.reservedExposure += reserved;
+      try {
+        await this.executeDecision(tokenAddress, strategy.name, { ...decision, orders: direct });
+      } finally {
+        this.reservedExposure -= reserved;
+      }
     }
 
     await this.updateMetrics();
   }
 
   /**
-   * Execute a market order (buy or sell) based on market conditions
+   * Buys submitted but not yet reflected in positions: direct orders in flight plus what parent buys have left
    */
-  private async executeMarketOrder(tokenAddress: string): Promise<void> {
-    const amountSol = this.config.trading.baseAmountSol;
-    const startTime = Date.now();
+  private exposureInFlight(): number {
+    return this.executionEngine.list()
+      .filter(parent => parent.side === 'buy')
+      .reduce((total, parent) => total + parent.remainingSol, this.reservedExposure);
+  }
 
-    const result = await this.orderRouter.executeBuyOrder(tokenAddress, amountSol);
-    const latency = Date.now() - startTime;
+  /**
+   * Portfolio entries from trading.tokens, or the single trading.targetToken
+   * Strategy precedence: the token entry, then trading.tokenStrategies, then trading.strategy
+   */
+  private resolvePortfolio(): Map<string, PortfolioEntry> {
+    const trading = this.config.trading;
+    const tokens = trading.tokens.length > 0 ? trading.tokens : [{ address: trading.targetToken! }];
+    return new Map(tokens.map(token => [token.address, {
+      config: {
+        ...trading,
+        targetToken: token.address,
+        baseAmountSol: token.baseAmountSol ?? trading.baseAmountSol,
+        spreadPercentage: token.spreadPercentage ?? trading.spreadPercentage,
+      },
+      strategy: token.strategy ?? trading.tokenStrategies[token.address] ?? trading.strategy,
+      maxPositionSol: token.maxPositionSol,
+      cycleInterval: token.cycleInterval ?? this.config.performance.metricsInterval,
+    }]));
+  }
 
-    if (result.success) {
-      this.tradeReport.successCount++;
-      this.tradeReport.totalLatencyMs += latency;
-      this.tradeReport.lastTradeTime = Date.now();
-      await this.marketStateManager.updatePosition(tokenAddress, amountSol);
-      console.log(`✅ Buy executed: ${result.transactionId.slice(0, 8)}... Latency: ${latency}ms`);
-    } else {
-      this.tradeReport.failureCount++;
-      console.error(`❌ Buy failed: ${result.error}`);
+  /**
+   * Strategy instance for a token, created on first use
+   */
+  private strategyFor(tokenAddress: string): Strategy {
+    let strategy = this.strategies.get(tokenAddress);
+    if (!strategy) {
+      const entry = this.portfolio.get(tokenAddress)!;
+      strategy = this.strategyRegistry.create(entry.strategy, entry.config);
+      this.strategies.set(tokenAddress, strategy);
+      console.log(`🧠 Trading ${tokenAddress} with the ${strategy.name} strategy`);
+    }
+    return strategy;
+  }
+
+  /**
+   * Drop orders with unusable sizes, never sell more tokens than are held,
+   * and trim buys to the token's position limit and the portfolio exposure cap
+   * @param positionSol Tokens held valued at the spot price; sells are sized in SOL at that price
+   * @param exposure Long SOL exposure across the portfolio, including buys in flight
+   */
+  private applyRiskChecks(orders: StrategyOrder[], positionSol: number, entry: PortfolioEntry, exposure: number): StrategyOrder[] {
+    let sellable = Math.max(positionSol, 0);
+    let buyable = Math.min(
+      (entry.maxPositionSol ?? Infinity) - positionSol,
+      this.config.trading.maxPortfolioExposureSol - exposure
+    );
+    const accepted: StrategyOrder[] = [];
+    for (const order of orders) {
+      if (!Number.isFinite(order.sizeSol) || !isTradable(order.sizeSol)) {
+        console.warn(`⚠️ Rejected ${order.side} (${order.reason}): invalid size ${order.sizeSol}`);
+        continue;
+      }
+      const available = order.side === 'sell' ? sellable : buyable;
+      const sizeSol = Math.min(order.sizeSol, available);
+      if (!isTradable(sizeSol)) {
+        console.warn(`⚠️ Rejected ${order.side} (${order.reason}): ${order.side === 'sell' ? 'no inventory' : 'position or exposure limit reached'}`);
+        continue;
+      }
+      if (sizeSol < order.sizeSol) console.warn(`⚠️ Trimmed ${order.side} (${order.reason}) from ${order.sizeSol} to ${sizeSol} SOL`);
+      if (order.side === 'sell') sellable -= sizeSol;
+      else buyable -= sizeSol;
+      accepted.push({ ...order, sizeSol });
     }
+    return accepted;
+  }
 
-    this.emit('tradeExecuted', { result, latency });
+  /**
+   * Spot price from the live curve, or from the AMM pool once the token graduated
+   */
+  private async getSpotPrice(tokenAddress: string): Promise<number> {
+    if (this.graduatedTokens.has(tokenAddress)) {
+      return (await this.pumpSwapAdapter.getPoolState(tokenAddress)).price;
+    }
+    const snapshot = this.curveStream.getLatest(tokenAddress);
+    if (!snapshot) throw new Error(`No bonding curve price for ${tokenAddress}`);
+    return snapshot.price;
   }
 
   /**
-   * Rebalance position by executing a counter trade
+   * SOL-side reserves for impact-capped and participation slicing: the live curve, or the AMM pool after graduation
    */
-  private async rebalancePosition(tokenAddress: string, positionSize: number): Promise<void> {
-    const amount = positionSize > 0 ? -positionSize * 0.5 : -positionSize * 0.5;
-    const startTime = Date.now();
+  private async getSolReserves(tokenAddress: string): Promise<bigint> {
+    if (this.graduatedTokens.has(tokenAddress)) {
+      return (await this.pumpSwapAdapter.getPoolState(tokenAddress)).quoteReserves;
+    }
+    const snapshot = this.curveStream.getLatest(tokenAddress);
+    if (!snapshot) throw new Error(`No bonding curve reserves for ${tokenAddress}`);
+    return snapshot.virtualSolReserves;
+  }
 
-    const result = amount > 0
-      ? await this.orderRouter.executeBuyOrder(tokenAddress, amount)
-      : await this.orderRouter.executeSellOrder(tokenAddress, -amount);
-    const latency = Date.now() - startTime;
+  /**
+   * Execute a decision's orders; several orders go out as one atomic bundle
+   * The router updates the position from the confirmed fills
+   */
+  private async executeDecision(tokenAddress: string, strategy: string, decision: StrategyDecision): Promise<void> {
+    const requests = decision.orders.map(order => this.toOrderRequest(order.side, tokenAddress, order.sizeSol));
+    const summary = decision.orders.map(order => `${order.side} ${order.sizeSol} SOL`).join(', ');
+    // Tokens take turns for router capacity; latency excludes the wait for a slot
+    const { result, latency } = await this.orderQueue.run(tokenAddress, async () => {
+      const startTime = Date.now();
+      const result = requests.length === 1
+        ? await this.orderRouter.executeOrder(requests[0]!)
+        : await this.orderRouter.executeBundle(requests);
+      return { result, latency: Date.now() - startTime };
+    });
 
     if (result.success) {
       this.tradeReport.successCount++;
       this.tradeReport.totalLatencyMs += latency;
-      await this.marketStateManager.updatePosition(tokenAddress, amount);
-      console.log(`⚖️ Rebalanced: ${result.transactionId.slice(0, 8)}... Latency: ${latency}ms`);
+      this.tradeReport.lastTradeTime = Date.now();
+      console.log(`✅ ${strategy}: ${summary} executed (${decision.reason}) Latency: ${latency}ms`);
     } else {
       this.tradeReport.failureCount++;
-      console.error(`❌ Rebalance failed: ${result.error}`);
+      console.error(`❌ ${strategy}: ${summary} failed: ${result.error}`);
     }
 
-    this.emit('rebalanced', { result, latency });
+    this.emit('tradeExecuted', { tokenAddress, result, latency, strategy, decision });
+  }
+
+  private toOrderRequest(type: OrderRequest['type'], tokenAddress: string, amountSol: number): OrderRequest {
+    return {
+      type,
+      tokenAddress,
+      amountLamports: Math.round(amountSol * 1_000_000_000),
+      maxSlippageBps: Math.round(this.config.trading.maxSlippage * 10000),
+      volatilityFactor: this.volatilityEstimator.getSpreadMultiplier(tokenAddress),
+    };
+  }
+
+  /**
+   * Switch a graduated token from the bonding curve to its PumpSwap pool
+   * @param tokenAddress Token whose curve reported complete
+   * @returns True once the token trades on the AMM, false while migration is pending
+   */
+  private async handleGraduation(tokenAddress: string): Promise<boolean> {
+    if (this.graduatedTokens.has(tokenAddress)) return true;
+
+    let poolAddress: string;
+    try {
+      poolAddress = (await this.pumpSwapAdapter.findPool(tokenAddress)).toBase58();
+    } catch (error) {
+      console.warn(`⏳ Curve complete for ${tokenAddress}, waiting for AMM pool: ${(error as Error).message}`);
+      return false;
+    }
+
+    this.graduatedTokens.set(tokenAddress, poolAddress);
+    this.orderRouter.markGraduated(tokenAddress);
+    await this.marketStateManager.markGraduated(tokenAddress, poolAddress);
+    await this.curveStream.unwatch(tokenAddress);
+
+    this.emit('tokenGraduated', { tokenAddress, poolAddress });
+    return true;
   }
 
   /**
@@ -196,11 +523,32 @@ export class Orchestrator extends EventEmitter {
   stop(): void {
     if (!this.isRunning) return;
     this.isRunning = false;
-    if (this.tradeInterval) clearInterval(this.tradeInterval);
+    for (const interval of this.tradeIntervals.values()) clearInterval(interval);
+    this.tradeIntervals.clear();
+    this.executionEngine.cancelAll();
+    this.chainState.stop();
+    this.rpcPool.stop();
+    this.curveStream.stop().catch(error => console.error(`❌ Failed to stop curve stream: ${error.message}`));
+    this.signer.disconnect().catch(error => console.error(`❌ Failed to disconnect signer: ${error.message}`));
     console.log('⏹️ Orchestrator stopped');
     this.emit('stopped');
   }
 
+  /**
+   * Parent orders still working, with their progress
+   */
+  getParentOrders(): ParentOrderProgress[] {
+    return this.executionEngine.list();
+  }
+
+  /**
+   * Stop a parent order before its next child
+   * @returns False when no such parent order is working
+   */
+  cancelParentOrder(id: string): boolean {
+    return this.executionEngine.cancel(id);
+  }
+
   /**
    * Get current trade report
    */
@@ -217,6 +565,11 @@ export class Orchestrator extends EventEmitter {
   }
 }
 
+// Orders round to whole lamports; anything smaller cannot be placed
+function isTradable(sizeSol: number): boolean {
+  return Math.round(sizeSol * 1_000_000_000) > 0;
+}
+
 /**
  * Example test stub using vitest
  */
@@ -0,0 +1,238 @@
+// /src/state/BondingCurveStream.ts
+// Purpose: Streams bonding-curve account changes over WebSocket into a live cache and MarketStateManager
+
+import { AccountInfo, Commitment, Connection, PublicKey } from '@solana/web3.js';
+import { EventEmitter } from 'node:events';
+import { setInterval, clearInterval } from 'node:timers';
+import { MarketStateManager } from './MarketStateManager.js';
+import { getSpotPrice } from '../lib/pumpfun/BondingCurveMath.js';
+import {
+  BondingCurveAccount,
+  deriveBondingCurveAddress,
+  parseBondingCurveAccountInfo,
+} from '../lib/pumpfun/BondingCurveAccount.js';
+
+/**
+ * Latest decoded curve state for a token
+ */
+export interface CurveSnapshot extends BondingCurveAccount {
+  tokenAddress: string;
+  price: number;
+  // Slot the account data was observed at
+  slot: number;
+  // Last time the snapshot was confirmed current (push or resync)
+  receivedAt: number;
+}
+
+/**
+ * Stream tuning options
+ */
+export interface BondingCurveStreamOptions {
+  commitment: Commitment;
+  // Resync a token over RPC when no update arrived for this long
+  staleAfterMs: number;
+}
+
+/**
+ * Per-token subscription bookkeeping
+ */
+interface Subscription {
+  tokenAddress: string;
+  curveAddress: PublicKey;
+  subscriptionId: number;
+  resyncing: boolean;
+}
+
+/**
+ * BondingCurveStream class for push-based curve pricing
+ * Emits 'update' with a CurveSnapshot and 'error' with an Error
+ */
+export class BondingCurveStream extends EventEmitter {
+  // Account reads (initial seed and resyncs)
+  private readonly connection: Connection;
+  // Account change subscriptions over WebSocket
+  private readonly subscriptionConnection: Connection;
+  private readonly marketStateManager: MarketStateManager;
+  private readonly options: BondingCurveStreamOptions;
+  private readonly subscriptions = new Map<string, Subscription>();
+  private readonly snapshots = new Map<string, CurveSnapshot>();
+  private healthInterval?: NodeJS.Timeout;
+
+  /**
+   * @param connection Reads go here, e.g. the RPC pool's facade so failover covers resyncs
+   * @param subscriptionConnection WebSocket connection for subscriptions; defaults to connection
+   */
+  constructor(
+    connection: Connection,
+    marketStateManager: MarketStateManager,
+    options: BondingCurveStreamOptions,
+    subscriptionConnection: Connection = connection
+  ) {
+    super();
+    if (!connection) throw new Error('Solana connection is required');
+    if (!marketStateManager) throw new Error('MarketStateManager is required');
+    this.connection = connection;
+    this.subscriptionConnection = subscriptionConnection;
+    this.marketStateManager = marketStateManager;
+    this.options = options;
+    console.log('📡 BondingCurveStream initialized');
+  }
+
+  /**
+   * Subscribe to a token's bonding curve and seed the cache with a fresh read
+   * @param tokenAddress Target token
+   */
+  async watch(tokenAddress: string): Promise<void> {
+    if (this.subscriptions.has(tokenAddress)) return;
+
+    const curveAddress = deriveBondingCurveAddress(new PublicKey(tokenAddress));
+    const subscription: Subscription = {
+      tokenAddress,
+      curveAddress,
+      subscriptionId: this.subscribe(tokenAddress, curveAddress),
+      resyncing: false,
+    };
+    this.subscriptions.set(tokenAddress, subscription);
+
+    // Subscribe before the initial read so no change can fall between the two
+    await this.resync(subscription);
+    this.ensureHealthCheck();
+    console.log(`👀 Watching bonding curve for ${tokenAddress}`);
+  }
+
+  /**
+   * Stop watching a token and drop its cached snapshot
+   * @param tokenAddress Target token
+   */
+  async unwatch(tokenAddress: string): Promise<void> {
+    const subscription = this.subscriptions.get(tokenAddress);
+    if (!subscription) return;
+    this.subscriptions.delete(tokenAddress);
+    this.snapshots.delete(tokenAddress);
+    await this.subscriptionConnection.removeAccountChangeListener(subscription.subscriptionId);
+  }
+
+  /**
+   * Get the latest cached snapshot for a token
+   * @param tokenAddress Target token
+   * @param maxAgeMs Reject snapshots not confirmed within this window (defaults to 2x staleAfterMs)
+   * @returns Snapshot, or undefined if none is fresh enough
+   */
+  getLatest(tokenAddress: string, maxAgeMs: number = this.options.staleAfterMs * 2): CurveSnapshot | undefined {
+    const snapshot = this.snapshots.get(tokenAddress);
+    if (!snapshot || Date.now() - snapshot.receivedAt > maxAgeMs) return undefined;
+    return snapshot;
+  }
+
+  /**
+   * Remove all subscriptions and stop the health check
+   */
+  async stop(): Promise<void> {
+    if (this.healthInterval) clearInterval(this.healthInterval);
+    this.healthInterval = undefined;
+    const tokens = [...this.subscriptions.keys()];
+    await Promise.all(tokens.map(token => this.unwatch(token)));
+    console.log('⏹️ BondingCurveStream stopped');
+  }
+
+  /**
+   * Open an account subscription that feeds handleUpdate
+   */
+  private subscribe(tokenAddress: string, curveAddress: PublicKey): number {
+    return this.subscriptionConnection.onAccountChange(
+      curveAddress,
+      (accountInfo, context) => {
+        this.handleUpdate(tokenAddress, accountInfo, context.slot).catch(error => this.emit('error', error));
+      },
+      { commitment: this.options.commitment }
+    );
+  }
+
+  /**
+   * Decode an account update, drop out-of-order slots and publish the snapshot
+   */
+  private async handleUpdate(tokenAddress: string, accountInfo: AccountInfo<Buffer>, slot: number): Promise<void> {
+    if (!this.subscriptions.has(tokenAddress)) return;
+
+    const previous = this.snapshots.get(tokenAddress);
+    if (previous && slot < previous.slot) return;
+
+    const account = parseBondingCurveAccountInfo(accountInfo);
+    const snapshot: CurveSnapshot = {
+      ...account,
+      tokenAddress,
+      price: getSpotPrice(account),
+      slot,
+      receivedAt: Date.now(),
+    };
+    this.snapshots.set(tokenAddress, snapshot);
+
+    await this.marketStateManager.updateCurveState(tokenAddress, snapshot);
+    this.emit('update', snapshot);
+  }
+
+  /**
+   * Gap recovery: re-read the account over RPC and apply it if newer than the cache
+   * @returns True if the read found a change the subscription never delivered
+   */
+  private async resync(subscription: Subscription): Promise<boolean> {
+    const { context, value } = await this.connection.getAccountInfoAndContext(
+      subscription.curveAddress,
+      this.options.commitment
+    );
+    if (!value) throw new Error(`Bonding curve not found for ${subscription.tokenAddress}`);
+
+    const previous = this.snapshots.get(subscription.tokenAddress);
+    if (previous && (context.slot <= previous.slot || !this.hasChanged(previous, parseBondingCurveAccountInfo(value)))) {
+      // Nothing missed; the cached state is still current as of this slot
+      previous.receivedAt = Date.now();
+      return false;
+    }
+    await this.handleUpdate(subscription.tokenAddress, value, context.slot);
+    return previous !== undefined;
+  }
+
+  /**
+   * Compare decoded curve fields between the cache and a fresh read
+   */
+  private hasChanged(previous: BondingCurveAccount, current: BondingCurveAccount): boolean {
+    return previous.virtualSolReserves !== current.virtualSolReserves
+      || previous.virtualTokenReserves !== current.virtualTokenReserves
+      || previous.realSolReserves !== current.realSolReserves
+      || previous.realTokenReserves !== current.realTokenReserves
+      || previous.complete !== current.complete;
+  }
+
+  /**
+   * Periodically resync quiet tokens and resubscribe when the stream missed updates
+   */
+  private ensureHealthCheck(): void {
+    if (this.healthInterval) return;
+    this.healthInterval = setInterval(() => {
+      for (const subscription of this.subscriptions.values()) {
+        const snapshot = this.snapshots.get(subscription.tokenAddress);
+        const quietFor = Date.now() - (snapshot?.receivedAt ?? 0);
+        if (quietFor > this.options.staleAfterMs && !subscription.resyncing) {
+          this.recover(subscription).catch(error => this.emit('error', error));
+        }
+      }
+    }, this.options.staleAfterMs);
+  }
+
+  /**
+   * Resync a quiet token and replace its subscription if it dropped updates
+   */
+  private async recover(subscription: Subscription): Promise<void> {
+    subscription.resyncing = true;
+    try {
+      const missed = await this.resync(subscription);
+      if (!missed || !this.subscriptions.has(subscription.tokenAddress)) return;
+
+      console.warn(`🔌 Curve stream missed updates for ${subscription.tokenAddress}, resubscribing`);
+      await this.subscriptionConnection.removeAccountChangeListener(subscription.subscriptionId).catch(() => undefined);
+      subscription.subscriptionId = this.subscribe(subscription.tokenAddress, subscription.curveAddress);
+    } finally {
+      subscription.resyncing = false;
+    }
+  }
+}
@@ -1,47 +1,68 @@
 // /src/state/MarketStateManager.ts
 // Purpose: Manages and caches market state (positions, liquidity, volatility) in Redis
 
-import { Connection } from '@solana/web3.js';
 import Redis from 'ioredis';
-import { calculateVolatility } from '../utils/marketAnalysis.js'; // Assume this exists
 
 /**
  * Market state interface representing cached data
  */
-interface MarketState {
+export interface MarketState {
   tokenAddress: string;
+  // Net SOL cost basis: spent on buys minus received from sells
   positionSize: number;
+  // Whole tokens held, from executed fills
+  tokenPosition: number;
   liquidity: number;
+  // Realized volatility per bar from VolatilityEstimator (0.05 = 5%)
   volatility: number;
+  // Latest bonding-curve spot price in SOL per token (0 until the curve stream reports)
+  price: number;
+  // Slot of the curve observation behind price
+  curveSlot: number;
+  // Bonding curve has completed and the token migrated off the curve
+  curveComplete: boolean;
+  // PumpSwap pool the token trades on after graduation
+  ammPool?: string;
   lastUpdated: number;
 }
 
+/**
+ * Curve observation pushed by the bonding-curve stream
+ */
+export interface CurveStateUpdate {
+  price: number;
+  virtualSolReserves: bigint;
+  virtualTokenReserves: bigint;
+  complete: boolean;
+  slot: number;
+}
+
 /**
  * MarketStateManager class for state management and caching
  */
 export class MarketStateManager {
   private readonly redis: Redis;
-  private readonly connection: Connection;
   private readonly cachePrefix: string = 'market:';
 
-  constructor(redis: Redis, connection: Connection) {
+  constructor(redis: Redis) {
     // Validate dependencies
     if (!redis) throw new Error('Redis client is required');
     this.redis = redis;
-    this.connection = connection;
     console.log('📦 MarketStateManager initialized');
   }
 
   /**
    * Update position size for a token in Redis
    * @param tokenAddress Target token
-   * @param amount Change in position size
+   * @param amount Change in SOL cost basis
+   * @param tokens Change in whole tokens held
    */
-  async updatePosition(tokenAddress: string, amount: number): Promise<void> {
-    const key = `${this.cachePrefix}\${tokenAddress}`;
+  async updatePosition(tokenAddress: string, amount: number, tokens: number = 0): Promise<void> {
+    const key = `${this.cachePrefix}${tokenAddress}`;
     await this.redis.hincrbyfloat(key, 'positionSize', amount);
+    await this.redis.hincrbyfloat(key, 'tokenPosition', tokens);
     await this.redis.hset(key, 'lastUpdated', Date.now().toString());
-    console.log(`📊 Position updated for \${tokenAddress}: \${amount}`);
+    console.log(`📊 Position updated for ${tokenAddress}: ${amount} SOL, ${tokens} tokens`);
   }
 
   /**
@@ -50,22 +71,55 @@ export class MarketStateManager {
    * @param amount Change in liquidity
    */
   async updateLiquidity(tokenAddress: string, amount: number): Promise<void> {
-    const key = `${this.cachePrefix}\${tokenAddress}`;
+    const key = `${this.cachePrefix}${tokenAddress}`;
     await this.redis.hincrbyfloat(key, 'liquidity', amount);
     await this.redis.hset(key, 'lastUpdated', Date.now().toString());
-    console.log(`📊 Liquidity updated for \${tokenAddress}: \${amount}`);
+    console.log(`📊 Liquidity updated for ${tokenAddress}: ${amount}`);
   }
 
   /**
-   * Refresh volatility and cache it
+   * Cache the latest realized volatility estimate
    * @param tokenAddress Target token
+   * @param volatility Relative volatility per bar
    */
-  async refreshVolatility(tokenAddress: string): Promise<void> {
-    const volatility = await calculateVolatility(tokenAddress, this.connection);
-    const key = `${this.cachePrefix}\${tokenAddress}`;
-    await this.redis.hset(key, 'volatility', volatility.toString());
-    await this.redis.hset(key, 'lastUpdated', Date.now().toString());
-    console.log(`📈 Volatility refreshed for \${tokenAddress}: \${volatility}`);
+  async updateVolatility(tokenAddress: string, volatility: number): Promise<void> {
+    const key = `${this.cachePrefix}${tokenAddress}`;
+    await this.redis.hset(key, {
+      volatility: volatility.toString(),
+      lastUpdated: Date.now().toString(),
+    });
+  }
+
+  /**
+   * Cache the latest bonding-curve observation for a token
+   * @param tokenAddress Target token
+   * @param update Decoded curve price, reserves and slot
+   */
+  async updateCurveState(tokenAddress: string, update: CurveStateUpdate): Promise<void> {
+    const key = `${this.cachePrefix}${tokenAddress}`;
+    await this.redis.hset(key, {
+      price: update.price.toString(),
+      virtualSolReserves: update.virtualSolReserves.toString(),
+      virtualTokenReserves: update.virtualTokenReserves.toString(),
+      curveComplete: update.complete ? '1' : '0',
+      curveSlot: update.slot.toString(),
+      lastUpdated: Date.now().toString(),
+    });
+  }
+
+  /**
+   * Record that a token graduated and now trades on an AMM pool
+   * @param tokenAddress Graduated token
+   * @param poolAddress PumpSwap pool address
+   */
+  async markGraduated(tokenAddress: string, poolAddress: string): Promise<void> {
+    const key = `${this.cachePrefix}${tokenAddress}`;
+    await this.redis.hset(key, {
+      curveComplete: '1',
+      ammPool: poolAddress,
+      lastUpdated: Date.now().toString(),
+    });
+    console.log(`🎓 Token ${tokenAddress} graduated to pool ${poolAddress}`);
   }
 
   /**
@@ -74,15 +128,30 @@ export class MarketStateManager {
    * @returns MarketState or null if not found
    */
   async getMarketState(tokenAddress: string): Promise<MarketState | null> {
-    const key = `${this.cachePrefix}\${tokenAddress}`;
+    const key = `${this.cachePrefix}${tokenAddress}`;
     const state = await this.redis.hgetall(key);
     if (Object.keys(state).length === 0) return null;
     return {
       tokenAddress,
       positionSize: parseFloat(state.positionSize || '0'),
+      tokenPosition: parseFloat(state.tokenPosition || '0'),
       liquidity: parseFloat(state.liquidity || '0'),
       volatility: parseFloat(state.volatility || '0'),
+      price: parseFloat(state.price || '0'),
+      curveSlot: parseInt(state.curveSlot || '0'),
+      curveComplete: state.curveComplete === '1',
+      ammPool: state.ammPool || undefined,
       lastUpdated: parseInt(state.lastUpdated || '0')
     };
   }
+
+  /**
+   * Long exposure summed across tokens; short positions do not offset it
+   * @param tokenAddresses Tokens in the portfolio
+   * @returns Exposure in SOL
+   */
+  async getPortfolioExposure(tokenAddresses: string[]): Promise<number> {
+    const states = await Promise.all(tokenAddresses.map(tokenAddress => this.getMarketState(tokenAddress)));
+    return states.reduce((total, state) => total + Math.max(state?.positionSize ?? 0, 0), 0);
+  }
 }
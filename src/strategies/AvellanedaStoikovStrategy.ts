@@ -0,0 +1,89 @@
+// /src/strategies/AvellanedaStoikovStrategy.ts
+// Purpose: Inventory-aware quoting with an Avellaneda-Stoikov reservation price, optimal spread and size skew
+
+import { TradingConfig } from '../config/BotConfig.js';
+import { Strategy, StrategyContext, StrategyDecision, StrategyOrder } from './Strategy.js';
+
+// Weight of each new spot observation in the mid price
+const MID_ALPHA = 0.2;
+
+/**
+ * Reservation price and quotes for the current inventory
+ * Prices are in SOL per token; the model runs on relative prices so sigma is the state's volatility as is
+ */
+export interface InventoryQuote {
+  mid: number;
+  reservationPrice: number;
+  // Optimal half-spread as a fraction of mid
+  halfSpread: number;
+  bid: number;
+  ask: number;
+  bidSizeSol: number;
+  askSizeSol: number;
+}
+
+/**
+ * AvellanedaStoikovStrategy class skewing prices and sizes against inventory instead of rebalancing in jumps
+ * Inventory q is counted in lots of baseAmountSol
+ */
+export class AvellanedaStoikovStrategy implements Strategy {
+  readonly name = 'avellaneda-stoikov';
+  private readonly config: TradingConfig;
+  private mid?: number;
+
+  constructor(config: TradingConfig) {
+    this.config = config;
+  }
+
+  evaluate({ positionSol, spotPrice, marketState }: StrategyContext): StrategyDecision {
+    if (!(spotPrice > 0)) throw new Error(`Invalid spot price: ${spotPrice}`);
+    const mid = this.mid ?? spotPrice;
+    this.mid = mid * (1 - MID_ALPHA) + spotPrice * MID_ALPHA;
+
+    const quote = this.quote(mid, positionSol, marketState?.volatility ?? 0);
+    const summary = { referencePrice: quote.reservationPrice, spotPrice, bid: quote.bid, ask: quote.ask };
+    const { order, reason } = this.pick(quote, spotPrice, positionSol);
+    return { ...summary, orders: order ? [order] : [], reason };
+  }
+
+  /**
+   * r = s(1 - q·γ·σ²·τ), δ = γ·σ²·τ + (2/γ)·ln(1 + γ/k), sizes scaled by e^(∓η·q)
+   * @param volatility Relative volatility per bar (0.3 = 30%)
+   */
+  quote(mid: number, positionSol: number, volatility: number): InventoryQuote {
+    const { riskAversion: gamma, orderArrivalIntensity: k, quoteHorizon: tau, inventorySkew: eta, baseAmountSol } = this.config;
+    const q = positionSol / baseAmountSol;
+    const variance = volatility * volatility * tau;
+
+    const reservationPrice = mid * (1 - q * gamma * variance);
+    const halfSpread = (gamma * variance + (2 / gamma) * Math.log(1 + gamma / k)) / 2;
+    return {
+      mid,
+      reservationPrice,
+      halfSpread,
+      bid: reservationPrice - mid * halfSpread,
+      ask: reservationPrice + mid * halfSpread,
+      bidSizeSol: baseAmountSol * Math.exp(-eta * q),
+      askSizeSol: baseAmountSol * Math.exp(eta * q),
+    };
+  }
+
+  /**
+   * The side whose quote the spot price traded through, sized within inventory limits
+   */
+  private pick(quote: InventoryQuote, spotPrice: number, positionSol: number): { order?: StrategyOrder; reason: string } {
+    const { baseAmountSol, maxInventoryLots } = this.config;
+    if (spotPrice <= quote.bid) {
+      const room = maxInventoryLots * baseAmountSol - positionSol;
+      if (room <= 0) return { reason: 'spot below bid at inventory cap' };
+      const reason = 'spot at or below bid';
+      return { order: { side: 'buy', sizeSol: Math.min(quote.bidSizeSol, room), reason }, reason };
+    }
+    if (spotPrice >= quote.ask) {
+      if (positionSol <= 0) return { reason: 'spot above ask with no inventory' };
+      const reason = 'spot at or above ask';
+      return { order: { side: 'sell', sizeSol: Math.min(quote.askSizeSol, positionSol), reason }, reason };
+    }
+    return { reason: 'spot inside quotes' };
+  }
+}
@@ -0,0 +1,53 @@
+// /src/strategies/DefaultStrategy.ts
+// Purpose: Spread quoting with a rebalance back toward flat once the position passes the threshold
+
+import { TradingConfig } from '../config/BotConfig.js';
+import { SpreadQuoter } from './SpreadQuoter.js';
+import { Strategy, StrategyContext, StrategyDecision } from './Strategy.js';
+
+// Share of the position a rebalance trades back
+const REBALANCE_FRACTION = 0.5;
+
+/**
+ * DefaultStrategy class quoting both sides until the position needs rebalancing
+ */
+export class DefaultStrategy implements Strategy {
+  readonly name = 'default';
+  private readonly quoter: SpreadQuoter;
+
+  constructor(config: TradingConfig) {
+    this.quoter = new SpreadQuoter({
+      spread: config.spreadPercentage,
+      baseSizeSol: config.baseAmountSol,
+      referenceAlpha: 0.2,
+      maxSizeMultiplier: 2,
+    });
+  }
+
+  evaluate({ positionSol, spotPrice, spreadMultiplier, config }: StrategyContext): StrategyDecision {
+    if (Math.abs(positionSol) > config.maxPositionSize * config.rebalanceThreshold) {
+      return {
+        orders: [{
+          side: positionSol > 0 ? 'sell' : 'buy',
+          sizeSol: Math.abs(positionSol) * REBALANCE_FRACTION,
+          reason: 'rebalance',
+          // Sliced so a thin curve does not take the whole rebalance at once
+          algorithm: config.rebalanceAlgorithm === 'single' ? undefined : config.rebalanceAlgorithm,
+        }],
+        reason: 'position beyond rebalance threshold',
+        referencePrice: spotPrice,
+        spotPrice,
+      };
+    }
+
+    const { side, sizeSol, reason, referencePrice, bid, ask } = this.quoter.decide(spotPrice, positionSol, spreadMultiplier);
+    return {
+      orders: side === 'hold' ? [] : [{ side, sizeSol, reason }],
+      reason,
+      referencePrice,
+      spotPrice,
+      bid,
+      ask,
+    };
+  }
+}
@@ -0,0 +1,82 @@
+// /src/strategies/SpreadQuoter.ts
+// Purpose: Two-sided quoting around a smoothed reference price, deciding each trade cycle's side and size
+
+export type QuoteSide = 'buy' | 'sell' | 'hold';
+
+/**
+ * What a trade cycle decided to do and why
+ */
+export interface QuoteDecision {
+  side: QuoteSide;
+  sizeSol: number;
+  // Smoothed fair value the bid and ask are placed around, in SOL per token
+  referencePrice: number;
+  spotPrice: number;
+  bid: number;
+  ask: number;
+  reason: string;
+}
+
+export interface SpreadQuoterOptions {
+  // Full bid-ask width as a fraction of the reference price (trading.spreadPercentage)
+  spread: number;
+  baseSizeSol: number;
+  // Weight of each new spot observation in the reference price
+  referenceAlpha: number;
+  // Upper bound on the size multiplier when the spot trades well beyond a level
+  maxSizeMultiplier: number;
+}
+
+/**
+ * SpreadQuoter class buying below the bid and selling above the ask
+ * A pool has no resting orders, so a level is "hit" when the spot price trades through it
+ */
+export class SpreadQuoter {
+  private readonly options: SpreadQuoterOptions;
+  private referencePrice?: number;
+
+  constructor(options: SpreadQuoterOptions) {
+    if (options.spread <= 0) throw new Error('Spread must be positive');
+    this.options = options;
+  }
+
+  /**
+   * Decide the next trade and fold the spot price into the reference afterwards
+   * @param spotPrice Current venue price in SOL per token
+   * @param positionSol Current inventory valued in SOL; sells never exceed it
+   * @param spreadMultiplier Widens the configured spread, e.g. with volatility
+   */
+  decide(spotPrice: number, positionSol: number, spreadMultiplier: number = 1): QuoteDecision {
+    if (!(spotPrice > 0)) throw new Error(`Invalid spot price: ${spotPrice}`);
+    const referencePrice = this.referencePrice ?? spotPrice;
+    const halfSpread = referencePrice * (this.options.spread * spreadMultiplier / 2);
+    const bid = referencePrice - halfSpread;
+    const ask = referencePrice + halfSpread;
+    const quote = { referencePrice, spotPrice, bid, ask };
+
+    const { referenceAlpha } = this.options;
+    this.referencePrice = referencePrice * (1 - referenceAlpha) + spotPrice * referenceAlpha;
+
+    if (spotPrice <= bid) {
+      return { ...quote, side: 'buy', sizeSol: this.size(bid - spotPrice, halfSpread), reason: 'spot at or below bid' };
+    }
+    if (spotPrice >= ask) {
+      if (positionSol <= 0) return { ...quote, side: 'hold', sizeSol: 0, reason: 'spot above ask with no inventory' };
+      const sizeSol = Math.min(this.size(spotPrice - ask, halfSpread), positionSol);
+      return { ...quote, side: 'sell', sizeSol, reason: 'spot at or above ask' };
+    }
+    // Inventory is what the ask sells; without it the spread cannot be captured
+    if (positionSol <= 0) {
+      return { ...quote, side: 'buy', sizeSol: this.options.baseSizeSol, reason: 'building inventory' };
+    }
+    return { ...quote, side: 'hold', sizeSol: 0, reason: 'spot inside spread' };
+  }
+
+  /**
+   * Base size, scaled up the further the spot trades through the level
+   */
+  private size(distance: number, halfSpread: number): number {
+    const multiplier = Math.min(1 + distance / halfSpread, this.options.maxSizeMultiplier);
+    return this.options.baseSizeSol * multiplier;
+  }
+}
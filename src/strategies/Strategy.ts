@@ -0,0 +1,55 @@
+// /src/strategies/Strategy.ts
+// Purpose: Contract between trading strategies and the Orchestrator, which schedules, risk-checks and executes their orders
+
+import { TradingConfig } from '../config/BotConfig.js';
+import { ExecutionAlgorithm } from '../engine/ExecutionAlgorithms.js';
+import { MarketState } from '../state/MarketStateManager.js';
+
+/**
+ * Everything a strategy sees for one token in one trade cycle
+ */
+export interface StrategyContext {
+  tokenAddress: string;
+  // Persisted state; null before the first cycle initializes it
+  marketState: MarketState | null;
+  // Tokens held valued at spotPrice in SOL; positive when long
+  positionSol: number;
+  // Current venue price in SOL per token
+  spotPrice: number;
+  // Volatility scaling for spread widths; 1 (or absent) when calm
+  spreadMultiplier?: number;
+  config: TradingConfig;
+}
+
+/**
+ * Order a strategy intends to place; the Orchestrator may trim or reject it
+ */
+export interface StrategyOrder {
+  side: 'buy' | 'sell';
+  sizeSol: number;
+  reason: string;
+  // Work the order as child orders instead of one shot; the token trades nothing else until it finishes
+  algorithm?: ExecutionAlgorithm;
+}
+
+/**
+ * Result of one evaluation; no orders means hold
+ * Orders are executed as one atomic bundle when there are several
+ */
+export interface StrategyDecision {
+  orders: StrategyOrder[];
+  reason: string;
+  // Fair value the strategy priced around, in SOL per token
+  referencePrice: number;
+  spotPrice: number;
+  bid?: number;
+  ask?: number;
+}
+
+/**
+ * Trading strategy; one instance per token, so instances may keep state between cycles
+ */
+export interface Strategy {
+  readonly name: string;
+  evaluate(context: StrategyContext): StrategyDecision | Promise<StrategyDecision>;
+}
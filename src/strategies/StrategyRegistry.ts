@@ -0,0 +1,52 @@
+// /src/strategies/StrategyRegistry.ts
+// Purpose: Name-to-factory lookup so strategies are selected per token through configuration
+
+import { TradingConfig } from '../config/BotConfig.js';
+import { AvellanedaStoikovStrategy } from './AvellanedaStoikovStrategy.js';
+import { DefaultStrategy } from './DefaultStrategy.js';
+import { Strategy } from './Strategy.js';
+
+export type StrategyFactory = (config: TradingConfig) => Strategy;
+
+/**
+ * StrategyRegistry class holding strategy factories by name
+ */
+export class StrategyRegistry {
+  private readonly factories = new Map<string, StrategyFactory>();
+
+  /**
+   * @throws Error when the name is already taken
+   */
+  register(name: string, factory: StrategyFactory): this {
+    if (this.factories.has(name)) throw new Error(`Strategy already registered: ${name}`);
+    this.factories.set(name, factory);
+    return this;
+  }
+
+  /**
+   * Create a fresh instance; call once per token since strategies may keep state
+   * @throws Error for unknown names
+   */
+  create(name: string, config: TradingConfig): Strategy {
+    const factory = this.factories.get(name);
+    if (!factory) throw new Error(`Unknown strategy "${name}", registered: ${this.names().join(', ')}`);
+    return factory(config);
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  names(): string[] {
+    return [...this.factories.keys()];
+  }
+}
+
+/**
+ * Registry with every strategy shipped in this repository
+ */
+export function createDefaultRegistry(): StrategyRegistry {
+  return new StrategyRegistry()
+    .register('default', config => new DefaultStrategy(config))
+    .register('avellaneda-stoikov', config => new AvellanedaStoikovStrategy(config));
+}
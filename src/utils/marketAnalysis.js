@@ -1,28 +0,0 @@
-// /src/utils/marketAnalysis.js
-// Purpose: Provides utility functions for real-time market analysis (e.g., volatility)
-
-import { Connection, PublicKey } from '@solana/web3.js';
-import { randomBytes } from 'node:crypto'; // For simulation if real data is unavailable
-
-/**
- * Calculate volatility for a given token based on historical price data
- * @param tokenAddress Target token public key
- * @param connection Solana RPC connection
- * @returns Volatility as a decimal (e.g., 0.3 for 30%)
- */
-export async function calculateVolatility(tokenAddress: string, connection: Connection): Promise<number> {
-  try {
-    // Validate token address
-    new PublicKey(tokenAddress);
-
-    // Simulate volatility calculation (replace with real data fetch in production)
-    // In a real scenario, fetch historical trades or price data from Solana
-    const simulatedVolatility = parseFloat(randomBytes(1).toString('hex')) / 255 * 0.5; // Random 0-0.5 for demo
-    console.log(\`📉 Calculated volatility for \${tokenAddress}: \${simulatedVolatility}\`);
-
-    return simulatedVolatility;
-  } catch (error) {
-    console.error(\`❌ Error calculating volatility for \${tokenAddress}: \${(error as Error).message}\`);
-    throw error; // Re-throw for upper layers to handle
-  }
-}